@@ -0,0 +1,296 @@
+import type { RestoredSession } from './session-journal'
+
+/**
+ * ローカル分析（端末内で集計し、外部には送らない）
+ * 日付・時間帯はこの端末のローカル時刻で区切る
+ */
+
+/**
+ * タイムライン上のアプリ・ウィンドウの区間
+ */
+export interface TimelineSegment {
+  app: string
+  title: string
+  start: string
+  end: string
+}
+
+/**
+ * タイムライン上の空白（離席・一時停止）
+ */
+export interface TimelineGap {
+  start: string
+  end: string
+  kind: 'idle' | 'lock' | 'suspend' | 'pause'
+}
+
+export interface HourlyActivity {
+  hour: number
+  activeSeconds: number
+  idleSeconds: number
+  pausedSeconds: number
+  captures: number
+}
+
+export interface AppTotal {
+  app: string
+  seconds: number
+  // その日の作業時間に占める割合（0〜1）
+  share: number
+}
+
+export interface DailyAnalytics {
+  date: string
+  segments: TimelineSegment[]
+  gaps: TimelineGap[]
+  hourly: HourlyActivity[]
+  appTotals: AppTotal[]
+  totals: {
+    activeSeconds: number
+    idleSeconds: number
+    pausedSeconds: number
+    captures: number
+  }
+}
+
+interface Range {
+  start: number
+  end: number
+}
+
+// ローカル日付（YYYY-MM-DD）
+function toDateKey(time: number): string {
+  const date = new Date(time)
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+// YYYY-MM-DD のローカル0時（不正な日付はnull）
+function parseDateKey(dateKey: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(dateKey)
+  if (!match) return null
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]))
+  return Number.isNaN(date.getTime()) ? null : date
+}
+
+// 区間を範囲内に切り詰める（重ならなければnull）
+function clip(range: Range, bounds: Range): Range | null {
+  const start = Math.max(range.start, bounds.start)
+  const end = Math.min(range.end, bounds.end)
+  return end > start ? { start, end } : null
+}
+
+// 開いたままの区間（記録中）は現在時刻までとする
+function toRange(interval: { start: string; end: string | null }, now: number): Range {
+  return {
+    start: new Date(interval.start).getTime(),
+    end: interval.end ? new Date(interval.end).getTime() : now,
+  }
+}
+
+interface AppRange extends Range {
+  app: string
+  title: string
+}
+
+/**
+ * 記録からアプリ・ウィンドウの区間を組み立てる
+ * 各記録は撮影時刻から使用時間の分だけ続き、次の撮影時刻で打ち切る
+ */
+function buildSegments(sessions: RestoredSession[]): AppRange[] {
+  const records = sessions
+    .flatMap((session) => session.screenshots)
+    .map((record) => ({ record, time: new Date(record.timestamp).getTime() }))
+    .sort((a, b) => a.time - b.time)
+
+  const segments: AppRange[] = []
+  // 複数ディスプレイの同時撮影は同じ時刻になるため、次の異なる時刻で打ち切る
+  let nextTime = Infinity
+  const nextTimes: number[] = []
+  for (let i = records.length - 1; i >= 0; i--) {
+    nextTimes[i] = nextTime
+    if (i > 0 && records[i - 1].time < records[i].time) {
+      nextTime = records[i].time
+    }
+  }
+
+  records.forEach(({ record, time }, i) => {
+    if (record.durationSeconds <= 0) return
+    const end = Math.min(time + record.durationSeconds * 1000, nextTimes[i])
+
+    const last = segments[segments.length - 1]
+    if (last && last.end >= time) {
+      if (last.app === record.appName && last.title === record.windowTitle) {
+        last.end = Math.max(last.end, end)
+        return
+      }
+      // 同時撮影の重なりは先の区間を優先
+      if (end <= last.end) return
+    }
+
+    segments.push({
+      app: record.appName,
+      title: record.windowTitle,
+      start: last ? Math.max(time, last.end) : time,
+      end,
+    })
+  })
+  return segments
+}
+
+// 区間を時間帯ごとに振り分ける
+function spreadByHour(
+  dayStart: Date,
+  range: Range,
+  add: (hour: number, seconds: number) => void
+): void {
+  for (let hour = 0; hour < 24; hour++) {
+    const hourStart = new Date(dayStart)
+    hourStart.setHours(hour)
+    const hourEnd = new Date(dayStart)
+    hourEnd.setHours(hour + 1)
+
+    const overlap = clip(range, { start: hourStart.getTime(), end: hourEnd.getTime() })
+    if (overlap) {
+      add(hour, (overlap.end - overlap.start) / 1000)
+    }
+  }
+}
+
+/**
+ * 記録のある日付の一覧（新しい順）
+ */
+export function listAnalyticsDates(
+  sessions: RestoredSession[],
+  now: number = Date.now()
+): string[] {
+  const dates = new Set<string>()
+  for (const session of sessions) {
+    dates.add(toDateKey(session.startTime.getTime()))
+    for (const record of session.screenshots) {
+      dates.add(toDateKey(new Date(record.timestamp).getTime()))
+    }
+    for (const interval of [...session.idleIntervals, ...session.pauseIntervals]) {
+      const range = toRange(interval, now)
+      // 日をまたぐ区間は両方の日に含める
+      for (let time = range.start; time < range.end; time += 24 * 60 * 60 * 1000) {
+        dates.add(toDateKey(time))
+      }
+      dates.add(toDateKey(range.end))
+    }
+  }
+  return [...dates].sort().reverse()
+}
+
+/**
+ * 1日分のタイムライン・時間帯別の集計・アプリ別の合計
+ */
+export function buildDailyAnalytics(
+  sessions: RestoredSession[],
+  date: string,
+  now: number = Date.now()
+): DailyAnalytics | null {
+  const dayStart = parseDateKey(date)
+  if (!dayStart) return null
+  const dayEnd = new Date(dayStart)
+  dayEnd.setDate(dayEnd.getDate() + 1)
+  const day: Range = { start: dayStart.getTime(), end: dayEnd.getTime() }
+
+  const hourly: HourlyActivity[] = Array.from({ length: 24 }, (_, hour) => ({
+    hour,
+    activeSeconds: 0,
+    idleSeconds: 0,
+    pausedSeconds: 0,
+    captures: 0,
+  }))
+
+  // アプリ・ウィンドウの区間
+  const segments: TimelineSegment[] = []
+  const appSeconds: Record<string, number> = {}
+  for (const segment of buildSegments(sessions)) {
+    const range = clip(segment, day)
+    if (!range) continue
+
+    segments.push({
+      app: segment.app,
+      title: segment.title,
+      start: new Date(range.start).toISOString(),
+      end: new Date(range.end).toISOString(),
+    })
+    appSeconds[segment.app] = (appSeconds[segment.app] || 0) + (range.end - range.start) / 1000
+    spreadByHour(dayStart, range, (hour, seconds) => {
+      hourly[hour].activeSeconds += seconds
+    })
+  }
+
+  // 離席・一時停止の区間
+  const gaps: TimelineGap[] = []
+  for (const session of sessions) {
+    for (const interval of session.idleIntervals) {
+      const range = clip(toRange(interval, now), day)
+      if (!range) continue
+      gaps.push({
+        start: new Date(range.start).toISOString(),
+        end: new Date(range.end).toISOString(),
+        kind: interval.reason,
+      })
+      spreadByHour(dayStart, range, (hour, seconds) => {
+        hourly[hour].idleSeconds += seconds
+      })
+    }
+    for (const interval of session.pauseIntervals) {
+      const range = clip(toRange(interval, now), day)
+      if (!range) continue
+      gaps.push({
+        start: new Date(range.start).toISOString(),
+        end: new Date(range.end).toISOString(),
+        kind: 'pause',
+      })
+      spreadByHour(dayStart, range, (hour, seconds) => {
+        hourly[hour].pausedSeconds += seconds
+      })
+    }
+  }
+  gaps.sort((a, b) => a.start.localeCompare(b.start))
+
+  // 撮影枚数
+  let captures = 0
+  for (const session of sessions) {
+    for (const record of session.screenshots) {
+      const time = new Date(record.timestamp).getTime()
+      if (time < day.start || time >= day.end) continue
+      hourly[new Date(time).getHours()].captures++
+      captures++
+    }
+  }
+
+  for (const entry of hourly) {
+    entry.activeSeconds = Math.round(entry.activeSeconds)
+    entry.idleSeconds = Math.round(entry.idleSeconds)
+    entry.pausedSeconds = Math.round(entry.pausedSeconds)
+  }
+
+  const activeSeconds = Object.values(appSeconds).reduce((a, b) => a + b, 0)
+  const appTotals: AppTotal[] = Object.entries(appSeconds)
+    .map(([app, seconds]) => ({
+      app,
+      seconds: Math.round(seconds),
+      share: activeSeconds > 0 ? seconds / activeSeconds : 0,
+    }))
+    .sort((a, b) => b.seconds - a.seconds)
+
+  return {
+    date,
+    segments,
+    gaps,
+    hourly,
+    appTotals,
+    totals: {
+      activeSeconds: Math.round(activeSeconds),
+      idleSeconds: hourly.reduce((sum, h) => sum + h.idleSeconds, 0),
+      pausedSeconds: hourly.reduce((sum, h) => sum + h.pausedSeconds, 0),
+      captures,
+    },
+  }
+}
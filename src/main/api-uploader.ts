@@ -0,0 +1,245 @@
+import * as fs from 'fs'
+import * as crypto from 'crypto'
+import { pipeline } from 'stream/promises'
+import { bufferToBlob, FetchFn, netFetch } from './google-drive-uploader'
+import type { OutboxBatch } from './upload-outbox'
+import type { UploadTarget, UploadTargetContext, UploadTargetResult } from './upload-targets'
+
+// チャンクサイズ（8MB）
+const CHUNK_SIZE = 8 * 1024 * 1024
+// 1チャンクあたりの再試行回数
+const CHUNK_RETRIES = 3
+// 1回のアップロードで許す再試行の合計（チャンク数に加える）
+const UPLOAD_RETRIES = 10
+
+interface ApiUploadResult {
+  success: boolean
+  message: string
+}
+
+/**
+ * ファイル全体のSHA-256（ストリームで読み込み、メインプロセスを止めない）
+ */
+async function hashFile(filePath: string): Promise<string> {
+  const hash = crypto.createHash('sha256')
+  await pipeline(fs.createReadStream(filePath), hash)
+  return hash.digest('hex')
+}
+
+// サーバーが返した受理位置が 0〜size の整数か
+function isValidOffset(offset: number | null, size: number): offset is number {
+  return offset !== null && Number.isInteger(offset) && offset >= 0 && offset <= size
+}
+
+/**
+ * APIへのチャンク分割・再開可能アップロード
+ *
+ * 1. POST /api/recorder/upload            → { upload_id, offset }
+ * 2. PUT  /api/recorder/upload/:id        Content-Range + X-Chunk-SHA256 → { offset }
+ * 3. GET  /api/recorder/upload/:id        → { offset }（中断後の再開位置）
+ * 4. POST /api/recorder/upload/:id/complete → { success, message }
+ *
+ * 送信位置は常にサーバーが受理したオフセットに従う
+ */
+export class ApiUploader implements UploadTarget {
+  readonly name = 'api'
+  readonly includesMetadata = true
+  private apiUrl: string
+  private token: string
+  private fetchFn: FetchFn
+
+  constructor(apiUrl: string, token: string, fetchFn: FetchFn = netFetch) {
+    this.apiUrl = apiUrl
+    this.token = token
+    this.fetchFn = fetchFn
+  }
+
+  /**
+   * 送信先としてバッチのZIPをアップロード（メタデータは開始時に送信）
+   */
+  async upload(
+    batch: OutboxBatch,
+    zipFilePath: string,
+    context: UploadTargetContext
+  ): Promise<UploadTargetResult> {
+    const result = await this.uploadFile(
+      zipFilePath,
+      batch.zipFileName,
+      context.metadata,
+      batch.apiUploadId ?? null,
+      (uploadId) => {
+        batch.apiUploadId = uploadId
+        context.persist()
+      },
+      context.onProgress
+    )
+
+    if (!result.success) {
+      throw new Error(result.message)
+    }
+    return { message: result.message }
+  }
+
+  /**
+   * ファイルを送信
+   * uploadId を渡すと前回の続きから再開し、新しく開始した場合は onUploadId で通知する
+   */
+  async uploadFile(
+    filePath: string,
+    fileName: string,
+    metadata: object,
+    uploadId: string | null,
+    onUploadId: (uploadId: string) => void,
+    onProgress?: (sentBytes: number, totalBytes: number) => void
+  ): Promise<ApiUploadResult> {
+    const size = fs.statSync(filePath).size
+
+    let offset: number | null = null
+    if (uploadId) {
+      offset = await this.queryOffset(uploadId)
+      if (offset === null) {
+        console.log('Upload session expired, restarting')
+      }
+    }
+    if (!uploadId || offset === null) {
+      const session = await this.initUpload(fileName, size, await hashFile(filePath), metadata)
+      uploadId = session.upload_id
+      offset = session.offset
+      onUploadId(uploadId)
+    }
+    // 開始・再開の位置もサーバーの応答のため、範囲外なら送信しない
+    if (!isValidOffset(offset, size)) {
+      throw new Error(`Upload returned an invalid offset: ${offset}/${size}`)
+    }
+
+    onProgress?.(offset, size)
+    // サーバーが進まない・戻し続ける場合に終わらなくならないよう、送信回数に上限を設ける
+    const maxAttempts = Math.ceil((size - offset) / CHUNK_SIZE) + UPLOAD_RETRIES
+    let attempts = 0
+    const fd = fs.openSync(filePath, 'r')
+    try {
+      let failures = 0
+      while (offset < size) {
+        if (++attempts > maxAttempts) {
+          throw new Error(`Upload gave up after ${maxAttempts} attempts at offset ${offset}/${size}`)
+        }
+        const length = Math.min(CHUNK_SIZE, size - offset)
+        const chunk = Buffer.alloc(length)
+        fs.readSync(fd, chunk, 0, length, offset)
+
+        try {
+          const next = await this.sendChunk(uploadId, chunk, offset, size)
+          // 受理位置は送信のたびに必ず進む（進まない・範囲外の応答は失敗として扱う）
+          if (!Number.isInteger(next) || next <= offset || next > size) {
+            throw new Error(`Chunk upload made no progress: offset ${offset} -> ${next}`)
+          }
+          offset = next
+          failures = 0
+          onProgress?.(offset, size)
+        } catch (error) {
+          failures++
+          if (failures >= CHUNK_RETRIES) throw error
+          console.error(`Chunk upload failed (${failures}/${CHUNK_RETRIES}):`, error)
+          // サーバーが受理した位置から再送
+          const acknowledged = await this.queryOffset(uploadId)
+          if (!isValidOffset(acknowledged, size)) throw error
+          offset = acknowledged
+        }
+      }
+    } finally {
+      fs.closeSync(fd)
+    }
+
+    return this.completeUpload(uploadId)
+  }
+
+  private async initUpload(
+    fileName: string,
+    size: number,
+    sha256: string,
+    metadata: object
+  ): Promise<{ upload_id: string; offset: number }> {
+    const response = await this.fetchFn(`${this.apiUrl}/api/recorder/upload`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Subject-Token': this.token,
+      },
+      body: JSON.stringify({ file_name: fileName, size, sha256, metadata }),
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      throw new Error(`Upload init failed: ${response.status} - ${errorText}`)
+    }
+
+    const result = (await response.json()) as { upload_id: string; offset?: number }
+    return { upload_id: result.upload_id, offset: result.offset ?? 0 }
+  }
+
+  /**
+   * チャンクを送信し、サーバーが受理したオフセットを返す
+   */
+  private async sendChunk(
+    uploadId: string,
+    chunk: Buffer,
+    offset: number,
+    size: number
+  ): Promise<number> {
+    const end = offset + chunk.length - 1
+    const response = await this.fetchFn(`${this.apiUrl}/api/recorder/upload/${encodeURIComponent(uploadId)}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'Content-Range': `bytes ${offset}-${end}/${size}`,
+        'X-Chunk-SHA256': crypto.createHash('sha256').update(chunk).digest('hex'),
+        'X-Subject-Token': this.token,
+      },
+      body: bufferToBlob(chunk, 'application/octet-stream'),
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      throw new Error(`Chunk upload failed: ${response.status} - ${errorText}`)
+    }
+
+    const result = (await response.json()) as { offset: number }
+    return result.offset
+  }
+
+  /**
+   * サーバーが受理済みのオフセット（セッションが存在しなければnull）
+   */
+  private async queryOffset(uploadId: string): Promise<number | null> {
+    const response = await this.fetchFn(`${this.apiUrl}/api/recorder/upload/${encodeURIComponent(uploadId)}`, {
+      headers: {
+        'X-Subject-Token': this.token,
+      },
+    })
+
+    if (response.status === 404 || response.status === 410) return null
+    if (!response.ok) {
+      const errorText = await response.text()
+      throw new Error(`Upload status failed: ${response.status} - ${errorText}`)
+    }
+
+    const result = (await response.json()) as { offset: number }
+    return result.offset
+  }
+
+  private async completeUpload(uploadId: string): Promise<ApiUploadResult> {
+    const response = await this.fetchFn(`${this.apiUrl}/api/recorder/upload/${encodeURIComponent(uploadId)}/complete`, {
+      method: 'POST',
+      headers: {
+        'X-Subject-Token': this.token,
+      },
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      throw new Error(`Upload complete failed: ${response.status} - ${errorText}`)
+    }
+
+    return (await response.json()) as ApiUploadResult
+  }
+}
@@ -0,0 +1,43 @@
+import * as crypto from 'crypto'
+import { Writable } from 'stream'
+import { createEncryptedFileStream } from './encrypted-stream'
+
+// 暗号化バンドルの形式:
+// MAGIC(4) + 暗号化した鍵の長さ(2, BE) + 暗号化した鍵 + IV(12) + 認証タグ(16) + 暗号文
+// 鍵: ランダムなAES-256-GCM鍵を管理者の公開鍵（RSA-OAEP / SHA-256）で暗号化
+const MAGIC = Buffer.from('ACE1')
+const IV_LENGTH = 12
+const TAG_LENGTH = 16
+
+export const BUNDLE_ENCRYPTION_ALGORITHM = 'RSA-OAEP-256+AES-256-GCM'
+
+/**
+ * 公開鍵のフィンガープリント（SPKI DER の SHA-256、16進）
+ */
+export function getKeyFingerprint(publicKeyPem: string): string {
+  const der = crypto.createPublicKey(publicKeyPem).export({ type: 'spki', format: 'der' })
+  return crypto.createHash('sha256').update(der).digest('hex')
+}
+
+/**
+ * 書き込んだ内容を管理者の公開鍵で暗号化して保存するストリーム
+ * 復号には管理者の秘密鍵が必要（この端末では復号できない）
+ */
+export function createBundleWriteStream(filePath: string, publicKeyPem: string): Writable {
+  const publicKey = crypto.createPublicKey(publicKeyPem)
+  const dataKey = crypto.randomBytes(32)
+  const iv = crypto.randomBytes(IV_LENGTH)
+
+  const wrappedKey = crypto.publicEncrypt(
+    { key: publicKey, padding: crypto.constants.RSA_PKCS1_OAEP_PADDING, oaepHash: 'sha256' },
+    dataKey
+  )
+  const cipher = crypto.createCipheriv('aes-256-gcm', dataKey, iv)
+
+  const keyLength = Buffer.alloc(2)
+  keyLength.writeUInt16BE(wrappedKey.length)
+
+  // 認証タグの位置は書き終えてから埋める
+  const header = Buffer.concat([MAGIC, keyLength, wrappedKey, iv, Buffer.alloc(TAG_LENGTH)])
+  return createEncryptedFileStream(filePath, header, header.length - TAG_LENGTH, cipher)
+}
@@ -0,0 +1,193 @@
+import { execFile } from 'child_process'
+import { screen } from 'electron'
+
+/**
+ * 撮影ライブラリ（screenshot-desktop）のディスプレイと Electron のディスプレイの対応付け
+ * 両者の並び順は一致しないため、Windows・Linux は位置、macOS はメインかどうかと解像度で対応付ける
+ * 一覧の取得は重い（macOS は system_profiler を実行する）ため、ディスプレイの構成が変わるまで使い回す
+ */
+
+/**
+ * 撮影ライブラリが返すディスプレイ（OSによって含まれる項目が異なる）
+ */
+export interface LibraryDisplay {
+  id: number | string
+  name: string
+  primary?: boolean
+  // Windows: 物理ピクセルの座標
+  top?: number
+  left?: number
+  right?: number
+  bottom?: number
+  // Linux: xrandr の解像度と位置
+  width?: number
+  height?: number
+  offsetX?: number
+  offsetY?: number
+}
+
+export type ListDisplaysFn = () => Promise<LibraryDisplay[]>
+
+/**
+ * 撮影対象のディスプレイ（electronId は対応付けできなかった場合null）
+ */
+export interface CaptureDisplay {
+  id: number | string
+  name: string
+  electronId: number | null
+}
+
+// macOS のディスプレイ一覧の取得の制限時間
+const SYSTEM_PROFILER_TIMEOUT_MS = 30 * 1000
+
+export class CaptureDisplayList {
+  private listDisplays: ListDisplaysFn | null
+  private cached: Promise<CaptureDisplay[]> | null = null
+
+  constructor(listDisplays: ListDisplaysFn | null) {
+    this.listDisplays = listDisplays
+  }
+
+  /**
+   * ディスプレイの追加・削除・解像度の変更で一覧を取り直す
+   */
+  start(): void {
+    screen.on('display-added', this.invalidate)
+    screen.on('display-removed', this.invalidate)
+    screen.on('display-metrics-changed', this.invalidate)
+  }
+
+  stop(): void {
+    screen.off('display-added', this.invalidate)
+    screen.off('display-removed', this.invalidate)
+    screen.off('display-metrics-changed', this.invalidate)
+    this.cached = null
+  }
+
+  private invalidate = () => {
+    this.cached = null
+  }
+
+  /**
+   * 撮影できるディスプレイの一覧（取得に失敗した場合は空、次回取り直す）
+   */
+  async list(): Promise<CaptureDisplay[]> {
+    if (!this.cached) {
+      this.cached = this.load()
+    }
+    try {
+      return await this.cached
+    } catch (error) {
+      console.error('List displays error:', error)
+      this.cached = null
+      return []
+    }
+  }
+
+  private async load(): Promise<CaptureDisplay[]> {
+    if (process.platform === 'darwin') {
+      return matchMacDisplays(await listMacDisplays())
+    }
+    if (!this.listDisplays) return []
+
+    const displays = await this.listDisplays()
+    return displays.map((d) => ({ id: d.id, name: d.name, electronId: matchByPosition(d) }))
+  }
+}
+
+// Windows・Linux: 左上の位置（物理ピクセル）が一致する Electron のディスプレイ
+function matchByPosition(display: LibraryDisplay): number | null {
+  const x = display.left ?? display.offsetX
+  const y = display.top ?? display.offsetY
+  if (x === undefined || y === undefined) return null
+
+  for (const d of screen.getAllDisplays()) {
+    const physical =
+      process.platform === 'win32'
+        ? screen.dipToScreenRect(null, d.bounds)
+        : {
+            x: Math.round(d.bounds.x * d.scaleFactor),
+            y: Math.round(d.bounds.y * d.scaleFactor),
+          }
+    if (physical.x === x && physical.y === y) return d.id
+  }
+  return null
+}
+
+interface MacDisplay {
+  name: string
+  primary: boolean
+  // 物理ピクセルと「解像度」（見た目の大きさ）
+  pixels: { width: number; height: number } | null
+  resolution: { width: number; height: number } | null
+}
+
+// screenshot-desktop と同じ system_profiler の出力から、解像度も含めて読み取る
+function listMacDisplays(): Promise<MacDisplay[]> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      'system_profiler',
+      ['SPDisplaysDataType', '-json'],
+      { timeout: SYSTEM_PROFILER_TIMEOUT_MS, maxBuffer: 4 * 1024 * 1024 },
+      (error, stdout) => {
+        if (error) {
+          reject(error)
+          return
+        }
+        try {
+          const data = JSON.parse(stdout) as {
+            SPDisplaysDataType?: Array<{ spdisplays_ndrvs?: Array<Record<string, string>> }>
+          }
+          const displays: MacDisplay[] = []
+          for (const gpu of data.SPDisplaysDataType ?? []) {
+            for (const d of gpu.spdisplays_ndrvs ?? []) {
+              displays.push({
+                name: d._name ?? '',
+                primary: d.spdisplays_main === 'spdisplays_yes',
+                pixels: parseSize(d._spdisplays_pixels),
+                resolution: parseSize(d._spdisplays_resolution),
+              })
+            }
+          }
+          resolve(displays)
+        } catch (parseError) {
+          reject(parseError)
+        }
+      }
+    )
+  })
+}
+
+// "2880 x 1800" / "1440 x 900 @ 60.00Hz" の形式
+function parseSize(value: string | undefined): { width: number; height: number } | null {
+  const match = value?.match(/(\d+)\s*x\s*(\d+)/)
+  return match ? { width: Number(match[1]), height: Number(match[2]) } : null
+}
+
+// macOS: screenshot-desktop はメインディスプレイを先頭にして0から番号を振る
+// メインは Electron のメインディスプレイ、それ以外は解像度で対応付ける（同じ解像度が複数ならその順）
+function matchMacDisplays(displays: MacDisplay[]): CaptureDisplay[] {
+  const ordered = [...displays.filter((d) => d.primary), ...displays.filter((d) => !d.primary)]
+  const primaryId = screen.getPrimaryDisplay().id
+  const remaining = screen.getAllDisplays().filter((d) => d.id !== primaryId)
+
+  return ordered.map((display, index) => {
+    let electronId: number | null = null
+    if (display.primary) {
+      electronId = primaryId
+    } else {
+      const found = remaining.find(
+        (d) =>
+          (display.resolution?.width === d.size.width &&
+            display.resolution?.height === d.size.height) ||
+          (display.pixels?.width === Math.round(d.size.width * d.scaleFactor) &&
+            display.pixels?.height === Math.round(d.size.height * d.scaleFactor))
+      )
+      if (found) {
+        electronId = found.id
+        remaining.splice(remaining.indexOf(found), 1)
+      }
+    }
+    return { id: index, name: display.name, electronId }
+  })
+}
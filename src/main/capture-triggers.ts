@@ -0,0 +1,153 @@
+import * as crypto from 'crypto'
+import { clipboard, powerMonitor } from 'electron'
+
+/**
+ * 撮影のきっかけ
+ * timer=定期撮影 / window=アプリ・ウィンドウの切り替え / clipboard=コピー / input=操作の再開
+ */
+export type CaptureTrigger = 'timer' | 'window' | 'clipboard' | 'input'
+
+export interface CaptureTriggerOptions {
+  window: boolean
+  clipboard: boolean
+  input: boolean
+}
+
+// 前面のウィンドウ・クリップボード・操作状況の確認間隔
+const POLL_INTERVAL_MS = 2 * 1000
+// この秒数以上操作がなかった後、続けて操作が始まったら操作の再開とみなす
+const INPUT_QUIET_SECONDS = 30
+// 操作が続いているとみなす確認回数（POLL_INTERVAL_MS ごと）
+const INPUT_BURST_POLLS = 3
+
+/**
+ * 定期撮影以外の撮影のきっかけを検知
+ * ウィンドウの切り替えは、切り替え直後のちらつきを除くため2回続けて同じだった場合のみ通知する
+ * クリップボードは内容のハッシュだけを保持し、内容そのものは保存しない
+ * 撮影するかどうか（間隔・回数の制限）は呼び出し側で判断する
+ */
+export class CaptureTriggerMonitor {
+  private getWindow: () => Promise<{ app: string; title: string } | null>
+  private onTrigger: (trigger: CaptureTrigger) => void
+  private options: CaptureTriggerOptions
+  private timer: NodeJS.Timeout | null = null
+  private polling = false
+  private windowKey: string | null = null
+  private pendingWindowKey: string | null = null
+  private clipboardHash: string | null = null
+  private quietSince: number | null = null
+  private activePolls = 0
+
+  constructor(
+    getWindow: () => Promise<{ app: string; title: string } | null>,
+    onTrigger: (trigger: CaptureTrigger) => void,
+    options: CaptureTriggerOptions
+  ) {
+    this.getWindow = getWindow
+    this.onTrigger = onTrigger
+    this.options = options
+  }
+
+  start(): void {
+    if (this.timer) return
+    if (!this.options.window && !this.options.clipboard && !this.options.input) return
+
+    // 開始時点の状態を基準にする（開始直後には通知しない）
+    this.windowKey = null
+    this.pendingWindowKey = null
+    this.clipboardHash = this.options.clipboard ? this.readClipboardHash() : null
+    this.quietSince = null
+    this.activePolls = 0
+    this.timer = setInterval(() => {
+      void this.poll()
+    }, POLL_INTERVAL_MS)
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  private async poll(): Promise<void> {
+    // 前回の確認が終わっていなければ飛ばす
+    if (this.polling) return
+    this.polling = true
+    try {
+      if (this.options.window) {
+        await this.checkWindow()
+      }
+      if (this.options.clipboard) {
+        this.checkClipboard()
+      }
+      if (this.options.input) {
+        this.checkInput()
+      }
+    } catch (error) {
+      console.error('Capture trigger check error:', error)
+    } finally {
+      this.polling = false
+    }
+  }
+
+  private async checkWindow(): Promise<void> {
+    const window = await this.getWindow()
+    if (!window) return
+
+    const key = `${window.app}\n${window.title}`
+    if (this.windowKey === null) {
+      this.windowKey = key
+      return
+    }
+    if (key === this.windowKey) {
+      this.pendingWindowKey = null
+      return
+    }
+    if (key !== this.pendingWindowKey) {
+      this.pendingWindowKey = key
+      return
+    }
+
+    this.windowKey = key
+    this.pendingWindowKey = null
+    this.onTrigger('window')
+  }
+
+  private checkClipboard(): void {
+    const hash = this.readClipboardHash()
+    if (hash === this.clipboardHash) return
+
+    this.clipboardHash = hash
+    this.onTrigger('clipboard')
+  }
+
+  private readClipboardHash(): string {
+    return crypto
+      .createHash('sha256')
+      .update(clipboard.availableFormats().join(','))
+      .update(clipboard.readText())
+      .digest('hex')
+  }
+
+  // システムの無操作時間から、しばらく操作がなかった後の操作の再開を検知
+  private checkInput(): void {
+    const now = Date.now()
+    const idleSeconds = powerMonitor.getSystemIdleTime()
+    if (idleSeconds * 1000 >= POLL_INTERVAL_MS) {
+      this.activePolls = 0
+      this.quietSince ??= now - idleSeconds * 1000
+      return
+    }
+
+    this.activePolls++
+    if (this.quietSince === null || this.activePolls < INPUT_BURST_POLLS) return
+
+    // 操作が始まる前に十分な無操作の時間があった場合のみ通知
+    const activeSince = now - this.activePolls * POLL_INTERVAL_MS
+    if (activeSince - this.quietSince >= INPUT_QUIET_SECONDS * 1000) {
+      this.onTrigger('input')
+    }
+    this.quietSince = null
+  }
+}
@@ -2,6 +2,62 @@ import * as fs from 'fs'
 import * as path from 'path'
 import { app } from 'electron'
 import { net } from 'electron'
+import type { RedactionRule } from './redactor'
+
+// 曜日ごとの記録時間帯（HH:MM、ローカル時刻。終了が開始以前なら翌日の終了時刻まで）
+export interface WorkingHours {
+  days: Partial<Record<Weekday, Array<{ start: string; end: string }>>>
+  holidays?: string[] // 記録しない日 (YYYY-MM-DD)
+}
+
+export type Weekday = 'sun' | 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat'
+
+// 管理画面から配信される記録ポリシー（省略項目は既定値）
+export interface RecordingPolicy {
+  interval_seconds?: number // 撮影間隔
+  jpeg_quality?: number // スクリーンショットのJPEG品質 (1-100)
+  image_format?: 'jpeg' | 'webp' // スクリーンショットの保存形式（省略時: jpeg）
+  webp_quality?: number // WebP品質 (1-100、省略時: 80)
+  max_image_width?: number // この幅 (px) に収まるよう縮小して保存
+  max_image_height?: number // この高さ (px) に収まるよう縮小して保存
+  grayscale?: boolean // グレースケールで保存（省略時: false）
+  thumbnail_width?: number // サムネイル幅 (px)
+  thumbnail_quality?: number // サムネイルのJPEG品質 (1-100、省略時: 60)
+  storage_budget_mb?: number // データフォルダの容量の上限（超えたら送信済みの画像を縮小・削除）
+  excluded_apps?: string[] // 撮影しないアプリ（部分一致）
+  upload_threshold?: number // この枚数以上で自動送信
+  upload_check_interval_minutes?: number // 自動送信チェック間隔
+  working_hours?: WorkingHours // 記録する時間帯
+  skip_duplicate_frames?: boolean // 直前とほぼ同じ画面は保存しない（省略時: true）
+  duplicate_frame_distance?: number // ほぼ同じとみなす知覚ハッシュの差（256ビット中のビット数）
+  capture_on_window_change?: boolean // アプリ・ウィンドウの切り替え時にも撮影（省略時: true）
+  capture_on_clipboard?: boolean // コピー時にも撮影（省略時: false）
+  capture_on_input_burst?: boolean // しばらく操作がなかった後の操作の再開時にも撮影（省略時: false）
+  event_capture_min_gap_seconds?: number // 上記の撮影の最小間隔（省略時: 10）
+  event_capture_max_per_hour?: number // 上記の撮影の1時間あたりの上限（省略時: 60）
+}
+
+// 端末内のデータの保管ポリシー（削除は上書きしてから行い、管理者に削除報告を送る）
+export interface RetentionPolicy {
+  delete_after_upload?: boolean // 送信先の受領を確認したら画像・ジャーナルを削除（省略時: false）
+  keep_days?: number // 送信済みの画像・ジャーナルをこの日数で削除（省略時: 削除しない）
+  wipe_at_study_end?: boolean // 調査終了時に端末内のデータをすべて削除（省略時: true）
+}
+
+// 送信先
+export type UploadTargetConfig =
+  | { type: 'api' } // APIにチャンク送信
+  | { type: 'google_drive' } // google_drive の資格情報で送信
+  | { type: 'brokered' } // APIが発行する短期アップロードURLに送信
+  | { type: 's3'; presign_url: string } // 署名付きURLを発行するエンドポイント
+  | {
+      type: 'webdav' // WebDAV・SharePointなどHTTP PUT
+      url: string
+      username?: string
+      password?: string
+      headers?: Record<string, string>
+    }
+  | { type: 'folder'; path: string } // ローカル・ネットワークフォルダ
 
 export interface Config {
   token: string
@@ -10,9 +66,41 @@ export interface Config {
   project_name: string
   support_contact?: string
   // 調査期間設定
-  recording_start_date?: string // 調査開始日 (ISO8601)
+  recording_start_date?: string // 調査開始日 (ISO8601、日付のみは端末の時刻の0時)
   recording_end_date?: string // 調査終了日 (ISO8601) - この日時を過ぎると自動終了
-  // Google Drive設定（OAuth方式）
+  // アクティブウィンドウ（アプリ名・タイトル）を記録するか（省略時: true）
+  track_active_window?: boolean
+  // 撮影対象ディスプレイ: primary / all / active（省略時: primary）
+  capture_mode?: 'primary' | 'all' | 'active'
+  // 保存前のマスキングルール（例: パスワード管理アプリは常に黒塗り）
+  redaction_rules?: RedactionRule[]
+  // 画像・ジャーナルをOSのキーチェーンの鍵で暗号化して保存（省略時: true）
+  encrypt_local_data?: boolean
+  // ZIPに暗号化したままの画像を格納（省略時: false = 復号して格納）
+  upload_encrypted_payloads?: boolean
+  // 管理者の公開鍵（PEM, RSA）。設定時はZIPをこの鍵で暗号化してから送信
+  admin_public_key?: string
+  // 撮影後に端末内で文字認識（OCR）し、画面内の文字で検索できるようにする（省略時: false）
+  ocr_enabled?: boolean
+  // 文字認識の言語（省略時: ['ja', 'en']）
+  ocr_languages?: string[]
+  // 認識した文字を送信するメタデータに含める（省略時: false）
+  upload_ocr_text?: boolean
+  // 対象者が作業のタグとして選べる作業の一覧（例: 請求書入力、顧客へのメール）
+  task_labels?: string[]
+  // 作業のタグを付ける画面を開くショートカット（省略時: CommandOrControl+Shift+T）
+  annotation_shortcut?: string
+  // 記録ポリシー（実行中も定期的に再取得）
+  recording_policy?: RecordingPolicy
+  // 端末内のデータの保管ポリシー
+  retention?: RetentionPolicy
+  // 送信方式: direct=設定内の資格情報で送信（既定） / brokered=APIが発行する短期アップロードURLで送信
+  upload_mode?: 'direct' | 'brokered'
+  // 送信先（省略時は upload_mode / google_drive から決定）
+  upload_target?: UploadTargetConfig
+  // APIに送るメタデータの形式（省略時: 1 = 従来形式。ZIPには常に両方を同梱）
+  api_metadata_version?: 1 | 2
+  // Google Drive設定（OAuth方式、direct のみ）
   google_drive?: {
     client_id: string
     client_secret: string
@@ -21,6 +109,118 @@ export interface Config {
   }
 }
 
+/**
+ * 画面（レンダラー）に渡す設定
+ * トークン・APIのURL・送信用の資格情報は含めない
+ */
+export type RendererConfig = Pick<
+  Config,
+  | 'subject_name'
+  | 'project_name'
+  | 'support_contact'
+  | 'recording_start_date'
+  | 'recording_end_date'
+  | 'task_labels'
+>
+
+export function toRendererConfig(config: Config): RendererConfig {
+  return {
+    subject_name: config.subject_name,
+    project_name: config.project_name,
+    support_contact: config.support_contact,
+    recording_start_date: config.recording_start_date,
+    recording_end_date: config.recording_end_date,
+    task_labels: config.task_labels,
+  }
+}
+
+export const DEFAULT_RECORDING_POLICY = {
+  interval_seconds: 60,
+  thumbnail_width: 320,
+  upload_threshold: 50,
+  upload_check_interval_minutes: 5,
+}
+
+// 撮影間隔・自動送信チェック間隔の下限（短すぎる値で撮影・送信が連続しないように）
+const MIN_INTERVAL_SECONDS = 5
+const MIN_UPLOAD_CHECK_INTERVAL_MINUTES = 1
+
+const WEEKDAYS: Weekday[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat']
+
+// 範囲内に丸めた数値（数値でなければ undefined = 既定値を使う）
+function clampNumber(value: unknown, min: number, max = Infinity): number | undefined {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return undefined
+  return Math.min(max, Math.max(min, value))
+}
+
+// 正の数値（0以下・数値以外は undefined = 既定値を使う）
+function positiveNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : undefined
+}
+
+// 記録時間帯を検証（形式が不正な時間帯は除き、days がなければ時間帯の指定なしとする）
+function sanitizeWorkingHours(value: unknown): WorkingHours | undefined {
+  if (value === undefined) return undefined
+  const workingHours = value as Partial<WorkingHours> | null
+  if (!workingHours || typeof workingHours.days !== 'object' || workingHours.days === null) {
+    return undefined
+  }
+
+  const isTime = (v: unknown) => typeof v === 'string' && /^([01]?\d|2[0-3]):[0-5]\d$/.test(v)
+  const days: WorkingHours['days'] = {}
+  for (const day of WEEKDAYS) {
+    const windows = workingHours.days[day]
+    if (!Array.isArray(windows)) continue
+    days[day] = windows.filter((w) => Boolean(w) && isTime(w.start) && isTime(w.end))
+  }
+  const holidays = Array.isArray(workingHours.holidays)
+    ? workingHours.holidays.filter((d) => typeof d === 'string')
+    : undefined
+  return { days, holidays }
+}
+
+// 記録ポリシーに既定値を補完（管理画面から配信された値は範囲を確認し、不正なら既定値を使う）
+export function resolveRecordingPolicy(config: Config): RecordingPolicy & typeof DEFAULT_RECORDING_POLICY {
+  const policy = config.recording_policy || {}
+  const interval = positiveNumber(policy.interval_seconds)
+  const uploadCheckInterval = positiveNumber(policy.upload_check_interval_minutes)
+  return {
+    ...policy,
+    interval_seconds:
+      interval !== undefined
+        ? Math.max(MIN_INTERVAL_SECONDS, interval)
+        : DEFAULT_RECORDING_POLICY.interval_seconds,
+    jpeg_quality: clampNumber(policy.jpeg_quality, 1, 100),
+    webp_quality: clampNumber(policy.webp_quality, 1, 100),
+    thumbnail_quality: clampNumber(policy.thumbnail_quality, 1, 100),
+    max_image_width: positiveNumber(policy.max_image_width),
+    max_image_height: positiveNumber(policy.max_image_height),
+    thumbnail_width:
+      positiveNumber(policy.thumbnail_width) ?? DEFAULT_RECORDING_POLICY.thumbnail_width,
+    storage_budget_mb: positiveNumber(policy.storage_budget_mb),
+    duplicate_frame_distance: clampNumber(policy.duplicate_frame_distance, 0, 256),
+    event_capture_min_gap_seconds: clampNumber(policy.event_capture_min_gap_seconds, 1),
+    event_capture_max_per_hour: clampNumber(policy.event_capture_max_per_hour, 0),
+    upload_threshold:
+      positiveNumber(policy.upload_threshold) ?? DEFAULT_RECORDING_POLICY.upload_threshold,
+    upload_check_interval_minutes:
+      uploadCheckInterval !== undefined
+        ? Math.max(MIN_UPLOAD_CHECK_INTERVAL_MINUTES, uploadCheckInterval)
+        : DEFAULT_RECORDING_POLICY.upload_check_interval_minutes,
+    working_hours: sanitizeWorkingHours(policy.working_hours),
+  }
+}
+
+// 保管ポリシーに既定値を補完
+export function resolveRetentionPolicy(config: Config): Required<RetentionPolicy> {
+  const retention = config.retention || {}
+  return {
+    delete_after_upload: retention.delete_after_upload === true,
+    keep_days: retention.keep_days && retention.keep_days > 0 ? retention.keep_days : 0,
+    wipe_at_study_end: retention.wipe_at_study_end !== false,
+  }
+}
+
 // 設定ファイルのパスを取得
 function getConfigPaths(): string[] {
   // ユーザーデータフォルダ（初回設定後に保存）
@@ -63,7 +263,10 @@ export function loadConfig(): Config | null {
 // 設定をユーザーデータフォルダに保存
 export function saveConfig(config: Config): void {
   const configPath = path.join(app.getPath('userData'), 'config.json')
-  fs.writeFileSync(configPath, JSON.stringify(config, null, 2))
+  // brokered 方式ではOAuthの資格情報を端末に残さない
+  const toSave: Config =
+    config.upload_mode === 'brokered' ? { ...config, google_drive: undefined } : config
+  fs.writeFileSync(configPath, JSON.stringify(toSave, null, 2))
   console.log('Config saved to:', configPath)
 }
 
@@ -0,0 +1,11 @@
+import { ipcRenderer } from 'electron'
+
+// 画像エンコード用の非表示ウィンドウのプリロード
+// メインプロセスから届いたポートをページに渡す（画像のバイト列はこのポートでやり取りする）
+ipcRenderer.on('encoder-port', (event) => {
+  // lib に DOM を含めていないため、ページの postMessage だけ型を付けて呼ぶ
+  const page = globalThis as unknown as {
+    postMessage(message: unknown, targetOrigin: string, transfer: unknown[]): void
+  }
+  page.postMessage('encoder-port', '*', event.ports)
+})
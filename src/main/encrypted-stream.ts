@@ -0,0 +1,62 @@
+import * as fs from 'fs'
+import { CipherGCM } from 'crypto'
+import { Writable } from 'stream'
+
+/**
+ * 書き込んだ内容を暗号化しながらファイルに保存するストリーム（平文をディスクに書かない）
+ * 認証タグは暗号化を終えるまで決まらないため、ヘッダーの tagOffset の位置に最後に書き込む
+ * 途中で失敗した場合は書きかけのファイルを削除する
+ */
+export function createEncryptedFileStream(
+  filePath: string,
+  header: Buffer,
+  tagOffset: number,
+  cipher: CipherGCM
+): Writable {
+  let handle: fs.promises.FileHandle | null = null
+  let position = 0
+  let finished = false
+
+  const append = async (data: Buffer) => {
+    if (data.length === 0) return
+    await handle!.write(data, 0, data.length, position)
+    position += data.length
+  }
+
+  return new Writable({
+    construct(callback) {
+      fs.promises
+        .open(filePath, 'w', 0o600)
+        .then(async (opened) => {
+          handle = opened
+          await append(header)
+        })
+        .then(() => callback(), callback)
+    },
+    write(chunk: Buffer, _encoding, callback) {
+      append(cipher.update(chunk)).then(() => callback(), callback)
+    },
+    final(callback) {
+      const finish = async () => {
+        await append(cipher.final())
+        const tag = cipher.getAuthTag()
+        await handle!.write(tag, 0, tag.length, tagOffset)
+        await handle!.sync()
+        finished = true
+      }
+      finish().then(() => callback(), callback)
+    },
+    destroy(error, callback) {
+      const opened = handle
+      handle = null
+      const cleanup = async () => {
+        await opened?.close()
+        if (!finished) await fs.promises.rm(filePath, { force: true })
+      }
+      cleanup().then(
+        () => callback(error),
+        () => callback(error)
+      )
+    },
+  })
+}
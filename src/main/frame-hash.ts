@@ -0,0 +1,58 @@
+import { nativeImage } from 'electron'
+
+/**
+ * 画面の知覚ハッシュ（dHash）
+ * 縮小したグレースケール画像で隣り合う画素の明暗を比べ、256ビットの16進文字列にする
+ * カーソルの点滅や時計の表示など小さな変化ではほとんど変わらない
+ */
+
+// 横は比較のため1画素多く縮小する
+const HASH_WIDTH = 16
+const HASH_HEIGHT = 16
+
+/**
+ * 画像の知覚ハッシュ（読み込めない画像はnull）
+ */
+export function computeFrameHash(image: Buffer): string | null {
+  const img = nativeImage.createFromBuffer(image)
+  if (img.isEmpty()) return null
+
+  // BGRA の並び
+  const bitmap = img
+    .resize({ width: HASH_WIDTH + 1, height: HASH_HEIGHT, quality: 'good' })
+    .toBitmap()
+  const gray = (x: number, y: number) => {
+    const i = (y * (HASH_WIDTH + 1) + x) * 4
+    return bitmap[i + 2] * 0.299 + bitmap[i + 1] * 0.587 + bitmap[i] * 0.114
+  }
+
+  const bytes = Buffer.alloc((HASH_WIDTH * HASH_HEIGHT) / 8)
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    for (let x = 0; x < HASH_WIDTH; x++) {
+      if (gray(x, y) > gray(x + 1, y)) {
+        const bit = y * HASH_WIDTH + x
+        bytes[bit >> 3] |= 1 << (bit & 7)
+      }
+    }
+  }
+  return bytes.toString('hex')
+}
+
+/**
+ * 2つのハッシュの異なるビット数（形式が違えば比較できないためInfinity）
+ */
+export function frameHashDistance(a: string, b: string): number {
+  if (a.length !== b.length) return Infinity
+
+  const x = Buffer.from(a, 'hex')
+  const y = Buffer.from(b, 'hex')
+  let distance = 0
+  for (let i = 0; i < x.length; i++) {
+    let diff = x[i] ^ y[i]
+    while (diff) {
+      distance += diff & 1
+      diff >>= 1
+    }
+  }
+  return distance
+}
@@ -1,6 +1,12 @@
 import * as fs from 'fs'
 import * as path from 'path'
+import { Writable } from 'stream'
 import { net } from 'electron'
+import type { ScreenshotRecord } from './recorder'
+import type { SecureStore } from './secure-store'
+import type { LedgerFile } from './upload-ledger'
+import type { OutboxBatch } from './upload-outbox'
+import type { UploadTarget, UploadTargetContext, UploadTargetResult } from './upload-targets'
 
 interface OAuthConfig {
   client_id: string
@@ -8,34 +14,234 @@ interface OAuthConfig {
   refresh_token: string
 }
 
-interface UploadResult {
+/**
+ * Google DriveのAPIエンドポイント
+ */
+export const GOOGLE_DRIVE_ENDPOINTS = {
+  token: 'https://oauth2.googleapis.com/token',
+  upload: 'https://www.googleapis.com/upload/drive/v3/files',
+  files: 'https://www.googleapis.com/drive/v3/files',
+}
+
+export interface UploadResult {
   success: boolean
   fileId?: string
   webViewLink?: string
   error?: string
 }
 
+/**
+ * 送信に使う fetch（既定は Electron の net.fetch。動作確認用のローカルサーバーでは差し替える）
+ */
+export type FetchFn = (url: string, init?: RequestInit) => Promise<Response>
+
+export const netFetch: FetchFn = (url, init) => net.fetch(url, init)
+
 /**
  * Buffer を net.fetch 互換の Blob に変換
  * (Electron の net.fetch は Node.js Buffer を直接受け付けない)
  */
-function bufferToBlob(buf: Buffer, type: string): Blob {
+export function bufferToBlob(buf: Buffer, type: string): Blob {
   const ab = buf.buffer.slice(buf.byteOffset, buf.byteOffset + buf.byteLength) as ArrayBuffer
   return new Blob([ab], { type })
 }
 
+// チャンクサイズ（Driveの規定により256KBの倍数）
+const CHUNK_SIZE = 8 * 1024 * 1024
+// 1チャンクあたりの再試行回数
+const CHUNK_RETRIES = 3
+
+/**
+ * 再開可能アップロードの途中経過
+ */
+export interface ResumableUploadOptions {
+  // 前回のセッションURI（あれば続きから再開）
+  sessionUri?: string | null
+  // 新しいセッションを開始したときに呼ばれる（再開用に保存すること）
+  onSessionUri?: (sessionUri: string) => void
+  onProgress?: (sentBytes: number, totalBytes: number) => void
+}
+
+type SessionStatus =
+  | { state: 'partial'; offset: number }
+  | { state: 'complete'; result: UploadResult }
+  | { state: 'expired' }
+
+// 完了時の応答からファイル情報を取り出す（署名付きURLなどは本文なし）
+async function parseUploadResult(response: Response): Promise<UploadResult> {
+  const text = await response.text()
+  let result: { id?: string; webViewLink?: string } = {}
+  try {
+    result = text ? JSON.parse(text) : {}
+  } catch {
+    // JSON以外の応答は無視
+  }
+  return {
+    success: true,
+    fileId: result.id,
+    webViewLink: result.webViewLink,
+  }
+}
+
+// 308応答の Range ヘッダー（bytes=0-N）から次の送信位置を求める
+function nextOffset(response: Response): number {
+  const range = response.headers.get('range')
+  const match = range?.match(/bytes=0-(\d+)/)
+  return match ? parseInt(match[1], 10) + 1 : 0
+}
+
+/**
+ * セッションの送信済み範囲を問い合わせ
+ */
+async function querySession(
+  uploadUrl: string,
+  fileSize: number,
+  fetchFn: FetchFn
+): Promise<SessionStatus> {
+  const response = await fetchFn(uploadUrl, {
+    method: 'PUT',
+    headers: {
+      'Content-Range': `bytes */${fileSize}`,
+    },
+  })
+
+  if (response.status === 308) {
+    return { state: 'partial', offset: nextOffset(response) }
+  }
+  if (response.ok) {
+    return { state: 'complete', result: await parseUploadResult(response) }
+  }
+  if (response.status === 404 || response.status === 410) {
+    return { state: 'expired' }
+  }
+  throw new Error(`Upload status failed: ${response.status} - ${await response.text()}`)
+}
+
+/**
+ * 再開可能アップロードのセッションURIにファイルを送信
+ * 送信済み範囲を問い合わせてから、固定サイズのチャンクで続きを送る
+ * セッションURI自体が認可を兼ねるため、アクセストークンや資格情報は不要
+ * セッションが失効している場合はnullを返す（新しいセッションで送り直すこと）
+ */
+export async function uploadToSessionUri(
+  uploadUrl: string,
+  filePath: string,
+  options: {
+    contentType?: string
+    onProgress?: ResumableUploadOptions['onProgress']
+    fetchFn?: FetchFn
+  } = {}
+): Promise<UploadResult | null> {
+  const contentType = options.contentType ?? 'application/zip'
+  const fetchFn = options.fetchFn ?? netFetch
+  const fileSize = fs.statSync(filePath).size
+
+  const status = await querySession(uploadUrl, fileSize, fetchFn)
+  if (status.state === 'expired') return null
+  if (status.state === 'complete') {
+    options.onProgress?.(fileSize, fileSize)
+    return status.result
+  }
+
+  let offset = status.offset
+  options.onProgress?.(offset, fileSize)
+
+  const fd = fs.openSync(filePath, 'r')
+  try {
+    let failures = 0
+    while (true) {
+      const length = Math.min(CHUNK_SIZE, fileSize - offset)
+      const chunk = Buffer.alloc(length)
+      fs.readSync(fd, chunk, 0, length, offset)
+
+      try {
+        const response = await fetchFn(uploadUrl, {
+          method: 'PUT',
+          headers: {
+            'Content-Range': `bytes ${offset}-${offset + length - 1}/${fileSize}`,
+            'Content-Type': contentType,
+          },
+          body: bufferToBlob(chunk, contentType),
+        })
+
+        if (response.ok) {
+          options.onProgress?.(fileSize, fileSize)
+          return await parseUploadResult(response)
+        }
+        if (response.status !== 308) {
+          throw new Error(`Chunk upload failed: ${response.status} - ${await response.text()}`)
+        }
+
+        offset = nextOffset(response)
+        failures = 0
+        options.onProgress?.(offset, fileSize)
+      } catch (error) {
+        failures++
+        if (failures >= CHUNK_RETRIES) throw error
+        console.error(`Chunk upload failed (${failures}/${CHUNK_RETRIES}):`, error)
+
+        // 送信済み範囲を確認して続きから再送
+        const retryStatus = await querySession(uploadUrl, fileSize, fetchFn)
+        if (retryStatus.state === 'expired') throw error
+        if (retryStatus.state === 'complete') return retryStatus.result
+        offset = retryStatus.offset
+      }
+    }
+  } finally {
+    fs.closeSync(fd)
+  }
+}
+
 /**
  * OAuth認証を使用したGoogle Driveアップローダー
  */
-export class GoogleDriveUploader {
+export class GoogleDriveUploader implements UploadTarget {
+  readonly name = 'google_drive'
+  readonly includesMetadata = false
   private config: OAuthConfig
   private folderId: string
+  private fetchFn: FetchFn
   private accessToken: string | null = null
   private tokenExpiry: number = 0
 
-  constructor(config: OAuthConfig, folderId: string) {
+  constructor(config: OAuthConfig, folderId: string, fetchFn: FetchFn = netFetch) {
     this.config = config
     this.folderId = folderId
+    this.fetchFn = fetchFn
+  }
+
+  /**
+   * 送信先としてバッチのZIPをアップロード
+   * セッションURIをバッチに保存し、中断した場合は次回の送信で続きから再開する
+   */
+  async upload(
+    batch: OutboxBatch,
+    zipFilePath: string,
+    context: UploadTargetContext
+  ): Promise<UploadTargetResult> {
+    console.log('Uploading to Google Drive...')
+    const result = await this.uploadZip(
+      zipFilePath,
+      batch.zipFileName,
+      context.projectName,
+      context.subjectName, // 対象者名でサブフォルダを作成
+      {
+        sessionUri: batch.uploadSession?.uri,
+        onSessionUri: (uri) => {
+          batch.uploadSession = { uri }
+          context.persist()
+        },
+        onProgress: context.onProgress,
+      }
+    )
+
+    if (!result.success) {
+      throw new Error(result.error)
+    }
+    return {
+      message: 'Google Driveにアップロードしました',
+      remote: { google_drive_file_id: result.fileId, google_drive_link: result.webViewLink },
+    }
   }
 
   /**
@@ -49,7 +255,7 @@ export class GoogleDriveUploader {
       return this.accessToken
     }
 
-    const response = await net.fetch('https://oauth2.googleapis.com/token', {
+    const response = await this.fetchFn(GOOGLE_DRIVE_ENDPOINTS.token, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/x-www-form-urlencoded',
@@ -74,15 +280,26 @@ export class GoogleDriveUploader {
   }
 
   /**
-   * ZIPファイルをGoogle Driveにアップロード
+   * ZIPファイルをGoogle Driveにアップロード（チャンク分割・再開可能）
+   * resume.sessionUri があれば前回の続きから送信する
    */
   async uploadZip(
     zipFilePath: string,
     fileName: string,
     projectName: string,
-    subjectName?: string
+    subjectName?: string,
+    resume: ResumableUploadOptions = {}
   ): Promise<UploadResult> {
     try {
+      if (resume.sessionUri) {
+        const resumed = await uploadToSessionUri(resume.sessionUri, zipFilePath, {
+          onProgress: resume.onProgress,
+          fetchFn: this.fetchFn,
+        })
+        if (resumed) return resumed
+        console.log('Upload session expired, restarting')
+      }
+
       const accessToken = await this.getAccessToken()
 
       // プロジェクトフォルダを取得または作成
@@ -94,101 +311,44 @@ export class GoogleDriveUploader {
         targetFolderId = await this.getOrCreateFolder(subjectName, projectFolderId, accessToken)
       }
 
-      // ファイルをアップロード
+      // 再開可能アップロードのセッションを開始
       const fileSize = fs.statSync(zipFilePath).size
-      const fileBuffer = fs.readFileSync(zipFilePath)
-
-      const metadata = {
-        name: fileName,
-        parents: [targetFolderId],
-      }
-
-      if (fileSize < 5 * 1024 * 1024) {
-        // シンプルアップロード（5MB以下）
-        const boundary = '-------314159265358979323846'
-        const delimiter = `\r\n--${boundary}\r\n`
-        const closeDelimiter = `\r\n--${boundary}--`
-
-        const multipartBody = Buffer.concat([
-          Buffer.from(delimiter),
-          Buffer.from('Content-Type: application/json; charset=UTF-8\r\n\r\n'),
-          Buffer.from(JSON.stringify(metadata)),
-          Buffer.from(delimiter),
-          Buffer.from('Content-Type: application/zip\r\n\r\n'),
-          fileBuffer,
-          Buffer.from(closeDelimiter),
-        ])
-
-        const response = await net.fetch(
-          'https://www.googleapis.com/upload/drive/v3/files?uploadType=multipart&fields=id,webViewLink',
-          {
-            method: 'POST',
-            headers: {
-              Authorization: `Bearer ${accessToken}`,
-              'Content-Type': `multipart/related; boundary=${boundary}`,
-            },
-            body: bufferToBlob(multipartBody, `multipart/related; boundary=${boundary}`),
-          }
-        )
-
-        if (!response.ok) {
-          const error = await response.text()
-          throw new Error(`Upload failed: ${error}`)
-        }
-
-        const result = (await response.json()) as { id: string; webViewLink: string }
-        return {
-          success: true,
-          fileId: result.id,
-          webViewLink: result.webViewLink,
-        }
-      } else {
-        // Resumable upload for large files
-        const initResponse = await net.fetch(
-          'https://www.googleapis.com/upload/drive/v3/files?uploadType=resumable',
-          {
-            method: 'POST',
-            headers: {
-              Authorization: `Bearer ${accessToken}`,
-              'Content-Type': 'application/json; charset=UTF-8',
-              'X-Upload-Content-Type': 'application/zip',
-              'X-Upload-Content-Length': String(fileSize),
-            },
-            body: JSON.stringify(metadata),
-          }
-        )
-
-        if (!initResponse.ok) {
-          const error = await initResponse.text()
-          throw new Error(`Upload initiation failed: ${error}`)
-        }
-
-        const uploadUrl = initResponse.headers.get('location')
-        if (!uploadUrl) {
-          throw new Error('No upload URL received')
-        }
-
-        const uploadResponse = await net.fetch(uploadUrl, {
-          method: 'PUT',
+      const initResponse = await this.fetchFn(
+        `${GOOGLE_DRIVE_ENDPOINTS.upload}?uploadType=resumable&fields=id,webViewLink`,
+        {
+          method: 'POST',
           headers: {
-            'Content-Length': String(fileSize),
-            'Content-Type': 'application/zip',
+            Authorization: `Bearer ${accessToken}`,
+            'Content-Type': 'application/json; charset=UTF-8',
+            'X-Upload-Content-Type': 'application/zip',
+            'X-Upload-Content-Length': String(fileSize),
           },
-          body: bufferToBlob(fileBuffer, 'application/zip'),
-        })
-
-        if (!uploadResponse.ok) {
-          const error = await uploadResponse.text()
-          throw new Error(`File upload failed: ${error}`)
+          body: JSON.stringify({
+            name: fileName,
+            parents: [targetFolderId],
+          }),
         }
+      )
 
-        const result = (await uploadResponse.json()) as { id: string; webViewLink?: string }
-        return {
-          success: true,
-          fileId: result.id,
-          webViewLink: result.webViewLink,
-        }
+      if (!initResponse.ok) {
+        const error = await initResponse.text()
+        throw new Error(`Upload initiation failed: ${error}`)
+      }
+
+      const uploadUrl = initResponse.headers.get('location')
+      if (!uploadUrl) {
+        throw new Error('No upload URL received')
+      }
+      resume.onSessionUri?.(uploadUrl)
+
+      const result = await uploadToSessionUri(uploadUrl, zipFilePath, {
+        onProgress: resume.onProgress,
+        fetchFn: this.fetchFn,
+      })
+      if (!result) {
+        throw new Error('Upload session expired')
       }
+      return result
     } catch (error) {
       console.error('Google Drive upload error:', error)
       return {
@@ -210,8 +370,8 @@ export class GoogleDriveUploader {
       `name='${folderName}' and '${parentId}' in parents and mimeType='application/vnd.google-apps.folder' and trashed=false`
     )
 
-    const searchResponse = await net.fetch(
-      `https://www.googleapis.com/drive/v3/files?q=${query}&fields=files(id,name)`,
+    const searchResponse = await this.fetchFn(
+      `${GOOGLE_DRIVE_ENDPOINTS.files}?q=${query}&fields=files(id,name)`,
       {
         headers: {
           Authorization: `Bearer ${accessToken}`,
@@ -230,7 +390,7 @@ export class GoogleDriveUploader {
     }
 
     // フォルダを作成
-    const createResponse = await net.fetch('https://www.googleapis.com/drive/v3/files', {
+    const createResponse = await this.fetchFn(GOOGLE_DRIVE_ENDPOINTS.files, {
       method: 'POST',
       headers: {
         Authorization: `Bearer ${accessToken}`,
@@ -254,17 +414,56 @@ export class GoogleDriveUploader {
 }
 
 /**
- * ZIPファイルを作成
+ * ZIP内のファイル一覧（metadata.events と同じ順序・件数）
+ * 差分送信では受領済みのファイルを格納せず、格納先のバッチを batch_id で示す
+ */
+export interface ZipManifestEntry {
+  id: string
+  screenshot: string
+  thumbnail: string | null
+  screenshot_sha256?: string
+  thumbnail_sha256?: string | null
+  screenshot_batch_id?: string
+  thumbnail_batch_id?: string | null
+}
+
+/**
+ * 差分送信の情報
+ */
+export interface ZipDeltaOptions {
+  batchId: string
+  // ファイルパス → 内容のSHA-256
+  hashes: Map<string, string>
+  // 送信先が受領済みのファイル（SHA-256 → 格納先）
+  acknowledged: Map<string, LedgerFile>
+  // 累積インデックス（index.json として同梱）
+  index: object
+}
+
+/**
+ * ZIPファイルを作成（渡された記録のファイルのみを含める）
+ * delta を指定した場合は受領済み・重複した内容のファイルを省略する
  */
 export async function createZipArchive(
-  sourceDir: string,
+  screenshots: ScreenshotRecord[],
   outputPath: string,
-  metadataJson: object
+  metadataJson: object,
+  options: {
+    store?: SecureStore | null
+    encryptedPayloads?: boolean
+    // v1 形式のメタデータ（metadata.v1.json として同梱）
+    legacyMetadata?: object
+    delta?: ZipDeltaOptions
+    // メタデータの検証エラー（あれば metadata.json の代わりに metadata.invalid.json として同梱）
+    metadataErrors?: string[]
+    // 書き込み先（暗号化しながら保存する場合。省略時は outputPath にそのまま書く）
+    output?: Writable
+  } = {}
 ): Promise<void> {
   const archiver = await import('archiver')
 
   return new Promise((resolve, reject) => {
-    const output = fs.createWriteStream(outputPath)
+    const output = options.output ?? fs.createWriteStream(outputPath)
     const archive = archiver.default('zip', { zlib: { level: 9 } })
 
     output.on('close', () => {
@@ -275,25 +474,88 @@ export async function createZipArchive(
     archive.on('error', (err: Error) => {
       reject(err)
     })
+    output.on('error', (err: Error) => {
+      archive.abort()
+      reject(err)
+    })
 
     archive.pipe(output)
 
-    // スクリーンショットフォルダを追加
-    const screenshotsDir = path.join(sourceDir, 'screenshots')
-    if (fs.existsSync(screenshotsDir)) {
-      archive.directory(screenshotsDir, 'screenshots')
+    // 暗号化された画像は指定がない限り復号して格納
+    const { store, encryptedPayloads, delta } = options
+    // このバッチに格納した内容（SHA-256 → ZIP内の名前）
+    const added = new Map<string, string>()
+    type AddedFile = { name: string; sha256?: string; batchId?: string }
+    const addFile = (filePath: string, name: string): AddedFile => {
+      const sha256 = delta?.hashes.get(filePath)
+      if (delta && sha256) {
+        const uploaded = delta.acknowledged.get(sha256)
+        if (uploaded) {
+          return { name: uploaded.name, sha256, batchId: uploaded.batchId }
+        }
+        const existing = added.get(sha256)
+        if (existing) {
+          return { name: existing, sha256, batchId: delta.batchId }
+        }
+        added.set(sha256, name)
+      }
+
+      if (store && !encryptedPayloads) {
+        archive.append(store.readFile(filePath), { name })
+      } else {
+        archive.file(filePath, { name })
+      }
+      return { name, sha256, batchId: delta?.batchId }
     }
 
-    // サムネイルフォルダを追加
-    const thumbnailsDir = path.join(sourceDir, 'thumbnails')
-    if (fs.existsSync(thumbnailsDir)) {
-      archive.directory(thumbnailsDir, 'thumbnails')
+    // 記録ごとにスクリーンショットとサムネイルを追加
+    const manifest: ZipManifestEntry[] = []
+    for (const s of screenshots) {
+      const screenshot = addFile(s.filePath, `screenshots/${path.basename(s.filePath)}`)
+
+      let thumbnail: AddedFile | null = null
+      if (fs.existsSync(s.thumbnailPath)) {
+        thumbnail = addFile(s.thumbnailPath, `thumbnails/${path.basename(s.thumbnailPath)}`)
+      }
+
+      const entry: ZipManifestEntry = {
+        id: s.id,
+        screenshot: screenshot.name,
+        thumbnail: thumbnail?.name ?? null,
+      }
+      if (delta) {
+        entry.screenshot_sha256 = screenshot.sha256
+        entry.thumbnail_sha256 = thumbnail?.sha256 ?? null
+        entry.screenshot_batch_id = screenshot.batchId
+        entry.thumbnail_batch_id = thumbnail?.batchId ?? null
+      }
+      manifest.push(entry)
     }
 
-    // メタデータJSONを追加
-    archive.append(JSON.stringify(metadataJson, null, 2), {
-      name: 'metadata.json',
+    // メタデータJSONとマニフェスト・累積インデックスを追加
+    if (options.metadataErrors?.length) {
+      archive.append(
+        JSON.stringify({ errors: options.metadataErrors, metadata: metadataJson }, null, 2),
+        { name: 'metadata.invalid.json' }
+      )
+    } else {
+      archive.append(JSON.stringify(metadataJson, null, 2), {
+        name: 'metadata.json',
+      })
+    }
+    archive.append(JSON.stringify(manifest, null, 2), {
+      name: 'manifest.json',
     })
+    if (options.legacyMetadata) {
+      archive.append(JSON.stringify(options.legacyMetadata, null, 2), {
+        name: 'metadata.v1.json',
+      })
+    }
+    if (delta) {
+      archive.append(JSON.stringify(delta.index, null, 2), {
+        name: 'index.json',
+      })
+    }
 
     archive.finalize()
   })
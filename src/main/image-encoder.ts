@@ -0,0 +1,213 @@
+import * as path from 'path'
+import { BrowserWindow, MessageChannelMain, NativeImage, nativeImage } from 'electron'
+
+/**
+ * 保存する画像の加工（縮小・グレースケール）とエンコード
+ * JPEG は nativeImage でエンコードし、WebP は nativeImage が対応していないため
+ * 非表示のウィンドウの canvas でエンコードする（失敗時は JPEG で保存）
+ * ウィンドウとの画像のやり取りは MessagePort で行い、スクリプトには埋め込まない
+ */
+
+export type ImageFormat = 'jpeg' | 'webp'
+
+export interface ImageEncodeOptions {
+  // 長辺ではなく幅・高さそれぞれの上限（縦横比は保つ）
+  maxWidth?: number
+  maxHeight?: number
+  grayscale?: boolean
+  format?: ImageFormat
+  // 1-100（省略時は JPEG: 撮影時の画質のまま / WebP: 80）
+  quality?: number
+}
+
+// 加工した画像を JPEG にするときの既定の品質
+const DEFAULT_JPEG_QUALITY = 90
+const DEFAULT_WEBP_QUALITY = 80
+// エンコードの制限時間（ウィンドウが応答しない場合は JPEG にする）
+const ENCODE_TIMEOUT_MS = 30 * 1000
+
+/**
+ * 指定サイズに収まるよう縮小し、必要ならグレースケールにした JPEG を返す
+ * 加工も品質指定もなければ元の画像をそのまま返す（フレームの比較・サムネイルはこの画像から作る）
+ * encoded は指定品質でエンコード済みの画像（マスキング済み）で、加工がなければ再エンコードしない
+ */
+export function prepareImage(
+  image: Buffer,
+  options: ImageEncodeOptions,
+  encoded = false
+): Buffer {
+  let img = nativeImage.createFromBuffer(image)
+  if (img.isEmpty()) return image
+
+  const size = img.getSize()
+  const scale = Math.min(
+    1,
+    options.maxWidth ? options.maxWidth / size.width : 1,
+    options.maxHeight ? options.maxHeight / size.height : 1
+  )
+  const resized = scale < 1
+  if (resized) {
+    img = img.resize({
+      width: Math.max(1, Math.round(size.width * scale)),
+      height: Math.max(1, Math.round(size.height * scale)),
+      quality: 'good',
+    })
+  }
+  if (options.grayscale) {
+    img = toGrayscale(img)
+  }
+
+  const quality = options.format === 'jpeg' || !options.format ? options.quality : undefined
+  if (!resized && !options.grayscale && (encoded || quality === undefined)) return image
+  return img.toJPEG(quality ?? DEFAULT_JPEG_QUALITY)
+}
+
+// BGRA の各画素を輝度に置き換える
+function toGrayscale(img: NativeImage): NativeImage {
+  const { width, height } = img.getSize()
+  const bitmap = img.toBitmap()
+  for (let i = 0; i < bitmap.length; i += 4) {
+    const y = Math.round(bitmap[i + 2] * 0.299 + bitmap[i + 1] * 0.587 + bitmap[i] * 0.114)
+    bitmap[i] = y
+    bitmap[i + 1] = y
+    bitmap[i + 2] = y
+  }
+  return nativeImage.createFromBitmap(bitmap, { width, height })
+}
+
+/**
+ * 保存形式でエンコード（prepareImage の結果を渡す）
+ * WebP にできなかった場合は JPEG のまま返す
+ */
+export async function encodeImage(
+  jpeg: Buffer,
+  options: ImageEncodeOptions
+): Promise<{ data: Buffer; format: ImageFormat }> {
+  if (options.format !== 'webp') {
+    return { data: jpeg, format: 'jpeg' }
+  }
+
+  try {
+    const webp = await transcodeWithCanvas(
+      jpeg,
+      'image/jpeg',
+      'image/webp',
+      options.quality ?? DEFAULT_WEBP_QUALITY
+    )
+    if (webp) {
+      return { data: webp, format: 'webp' }
+    }
+    console.log('WebP encoding unavailable, saving as JPEG')
+  } catch (error) {
+    console.error('WebP encode error:', error)
+  }
+  return { data: jpeg, format: 'jpeg' }
+}
+
+/**
+ * 画像の形式（先頭のバイト列で判定）
+ */
+export function detectImageFormat(image: Buffer): ImageFormat {
+  const isWebp =
+    image.length >= 12 &&
+    image.subarray(0, 4).toString('ascii') === 'RIFF' &&
+    image.subarray(8, 12).toString('ascii') === 'WEBP'
+  return isWebp ? 'webp' : 'jpeg'
+}
+
+export function imageMimeType(image: Buffer): string {
+  return detectImageFormat(image) === 'webp' ? 'image/webp' : 'image/jpeg'
+}
+
+/**
+ * nativeImage で扱えるよう JPEG にする（WebP は canvas で変換、変換できなければnull）
+ */
+export async function decodeToJpeg(
+  image: Buffer,
+  quality = DEFAULT_JPEG_QUALITY
+): Promise<Buffer | null> {
+  if (detectImageFormat(image) === 'jpeg') return image
+  return transcodeWithCanvas(image, 'image/webp', 'image/jpeg', quality)
+}
+
+let encoderWindow: BrowserWindow | null = null
+
+// エンコード用のウィンドウに一度だけ読み込むスクリプト
+// プリロードから受け取ったポートで { image, from, to, quality } を受け取り、変換結果を返す
+const ENCODER_SCRIPT = `
+window.addEventListener('message', (event) => {
+  if (event.source !== window || event.data !== 'encoder-port') return
+  const [port] = event.ports
+  port.onmessage = async ({ data }) => {
+    try {
+      const bitmap = await createImageBitmap(new Blob([data.image], { type: data.from }))
+      const canvas = new OffscreenCanvas(bitmap.width, bitmap.height)
+      canvas.getContext('2d').drawImage(bitmap, 0, 0)
+      bitmap.close()
+      const blob = await canvas.convertToBlob({ type: data.to, quality: data.quality / 100 })
+      const encoded = blob.type === data.to ? new Uint8Array(await blob.arrayBuffer()) : null
+      port.postMessage({ image: encoded })
+    } catch (error) {
+      port.postMessage({ error: String(error) })
+    }
+    port.close()
+  }
+})
+`
+
+// canvas でのエンコード用の非表示ウィンドウ（初回のみ作成）
+async function getEncoderWindow(): Promise<BrowserWindow> {
+  if (encoderWindow && !encoderWindow.isDestroyed()) return encoderWindow
+
+  const window = new BrowserWindow({
+    show: false,
+    width: 1,
+    height: 1,
+    webPreferences: {
+      nodeIntegration: false,
+      contextIsolation: true,
+      sandbox: true,
+      backgroundThrottling: false,
+      preload: path.join(__dirname, 'encoder-preload.js'),
+    },
+  })
+  window.on('closed', () => {
+    if (encoderWindow === window) encoderWindow = null
+  })
+  await window.loadURL('about:blank')
+  await window.webContents.executeJavaScript(ENCODER_SCRIPT)
+  encoderWindow = window
+  return window
+}
+
+// 画像を canvas に描き、指定の形式で取り出す（その形式に対応していなければnull）
+async function transcodeWithCanvas(
+  image: Buffer,
+  from: string,
+  to: string,
+  quality: number
+): Promise<Buffer | null> {
+  const window = await getEncoderWindow()
+  const { port1, port2 } = new MessageChannelMain()
+
+  let timer: NodeJS.Timeout | null = null
+  try {
+    return await new Promise<Buffer | null>((resolve, reject) => {
+      timer = setTimeout(() => reject(new Error('Image transcode timed out')), ENCODE_TIMEOUT_MS)
+      port1.on('message', ({ data }) => {
+        const result = data as { image?: Uint8Array | null; error?: string }
+        if (result.error) {
+          reject(new Error(result.error))
+        } else {
+          resolve(result.image ? Buffer.from(result.image) : null)
+        }
+      })
+      port1.start()
+      window.webContents.postMessage('encoder-port', null, [port2])
+      port1.postMessage({ image, from, to, quality })
+    })
+  } finally {
+    if (timer) clearTimeout(timer)
+    port1.close()
+  }
+}
@@ -1,4 +1,15 @@
-import { app, BrowserWindow, Tray, Menu, ipcMain, nativeImage, dialog, shell, Notification } from 'electron'
+import {
+  app,
+  BrowserWindow,
+  Tray,
+  Menu,
+  ipcMain,
+  nativeImage,
+  dialog,
+  shell,
+  Notification,
+  globalShortcut,
+} from 'electron'
 import { systemPreferences } from 'electron'
 
 // Dockにアイコンを表示しない（macOS）
@@ -7,9 +18,25 @@ if (process.platform === 'darwin') {
 }
 import * as path from 'path'
 import * as fs from 'fs'
-import { Recorder } from './recorder'
+import { Recorder, RecorderPolicyOptions } from './recorder'
 import { Uploader } from './uploader'
-import { loadConfig, saveConfig, fetchConfigFromApi, deleteUserConfig, Config } from './config'
+import { UploadOutbox, DrainResult } from './upload-outbox'
+import { SecureStore } from './secure-store'
+import { buildDailyAnalytics, listAnalyticsDates } from './analytics'
+import { imageMimeType } from './image-encoder'
+import { PurgeReason, PurgeResult, purgeAllLocalData, purgeUploadedData } from './retention'
+import { clearOcrTempFiles } from './ocr'
+import { getScheduleState, parseScheduleDate, ScheduleState } from './schedule'
+import {
+  loadConfig,
+  saveConfig,
+  fetchConfigFromApi,
+  deleteUserConfig,
+  resolveRecordingPolicy,
+  resolveRetentionPolicy,
+  toRendererConfig,
+  Config,
+} from './config'
 
 // === 画面収録権限チェック ===
 async function checkScreenRecordingPermission(): Promise<boolean> {
@@ -82,14 +109,98 @@ async function checkScreenRecordingPermission(): Promise<boolean> {
   return false
 }
 
+// === アクセシビリティ権限チェック（アクティブウィンドウ取得用） ===
+const ACCESSIBILITY_RECHECK_MS = 5 * 60 * 1000 // 5分ごとに再判定
+let accessibilityCache: { granted: boolean; checkedAt: number } | null = null
+
+// 権限の有無を返す（撮影ごとに呼ばれるため結果をキャッシュし、ダイアログは出さない）
+function hasAccessibilityPermission(): boolean {
+  // Windowsでは権限不要
+  if (process.platform !== 'darwin') {
+    return true
+  }
+
+  const now = Date.now()
+  if (accessibilityCache && now - accessibilityCache.checkedAt < ACCESSIBILITY_RECHECK_MS) {
+    return accessibilityCache.granted
+  }
+
+  const granted = systemPreferences.isTrustedAccessibilityClient(false)
+  accessibilityCache = { granted, checkedAt: now }
+  return granted
+}
+
+// 権限がない場合は案内ダイアログを表示（初回のみ。記録は権限なしでも続行）
+async function checkAccessibilityPermission(): Promise<boolean> {
+  if (hasAccessibilityPermission()) {
+    return true
+  }
+
+  const statePath = path.join(app.getPath('userData'), 'permissions.json')
+  let state: { accessibility_prompted_at?: string } = {}
+  try {
+    if (fs.existsSync(statePath)) {
+      state = JSON.parse(fs.readFileSync(statePath, 'utf8'))
+    }
+  } catch (error) {
+    console.error('Permission state parse error:', error)
+  }
+
+  if (state.accessibility_prompted_at) {
+    console.log('アクセシビリティ権限なし（案内済み）: アプリ名のみ記録します')
+    return false
+  }
+
+  app.dock?.show()
+
+  const result = await dialog.showMessageBox({
+    type: 'info',
+    title: 'アクセシビリティの権限について',
+    message: '使用中のアプリを正確に記録するため、アクセシビリティの権限を推奨します',
+    detail: `【設定手順】
+1. 「システム設定を開く」をクリック
+2. 「AI Check Recorder」を探してONにする
+
+※ 権限がなくても記録は続行されます。`,
+    buttons: ['システム設定を開く', '後で'],
+    defaultId: 0,
+  })
+
+  if (result.response === 0) {
+    shell.openExternal('x-apple.systempreferences:com.apple.preference.security?Privacy_Accessibility')
+  }
+
+  state.accessibility_prompted_at = new Date().toISOString()
+  fs.writeFileSync(statePath, JSON.stringify(state, null, 2))
+
+  app.dock?.hide()
+  return false
+}
+
 let mainWindow: BrowserWindow | null = null
 let tray: Tray | null = null
 let recorder: Recorder | null = null
 let config: Config | null = null
+let outbox: UploadOutbox | null = null
+let secureStore: SecureStore | null = null
+let finishingStudy = false
+let scheduleState: ScheduleState = { status: 'active' }
+// スケジュールにより自動で一時停止したか（利用者の一時停止とは区別する）
+let pausedBySchedule = false
 
 const isDev = process.env.NODE_ENV === 'development'
 
+// 記録ポリシーの再取得間隔
+const POLICY_REFRESH_INTERVAL_MS = 30 * 60 * 1000
+// 記録スケジュールの確認間隔
+const SCHEDULE_CHECK_INTERVAL_MS = 30 * 1000
+
+// 作業のタグを付ける画面を開くショートカット（設定で変更可）
+const DEFAULT_ANNOTATION_SHORTCUT = 'CommandOrControl+Shift+T'
+
 const FAILURE_NOTICE_THROTTLE_MS = 30 * 60 * 1000
+// 保管期間を過ぎたデータの確認間隔
+const RETENTION_CHECK_INTERVAL_MS = 60 * 60 * 1000
 let lastFailureNoticeAt = 0
 
 function getSupportContactMessage(): string {
@@ -149,6 +260,365 @@ async function notifyUploadFailure(params: {
   }
 }
 
+// 端末内のデータを削除したことを管理者への報告の送信待ちに追加（送信キューが送れるまで再送する）
+function queuePurgeReceipt(reason: PurgeReason, result: PurgeResult): void {
+  try {
+    outbox?.addPurgeReceipt(reason, result)
+  } catch (error) {
+    console.error('Failed to queue purge receipt:', error)
+  }
+}
+
+// 送信キューの自動再送を開始
+function startOutboxAutoRetry(): void {
+  outbox?.startAutoRetry(
+    () => (config ? new Uploader(config, secureStore) : null),
+    (result) => {
+      handleDrainResult('auto', result)
+    }
+  )
+}
+
+// 記録データの保存先
+function getRecordingsDir(): string {
+  return path.join(app.getPath('userData'), 'recordings')
+}
+
+// 送信先の受領を確認したデータを削除（保管ポリシーで有効な場合）
+async function purgeAfterUpload(): Promise<void> {
+  if (!config || !resolveRetentionPolicy(config).delete_after_upload) return
+
+  // 保管済みのジャーナルは、送信待ちのバッチがなくなった（すべて受領された）時点で削除
+  const result = purgeUploadedData(getRecordingsDir(), {
+    includeJournals: (outbox?.pendingCount() ?? 0) === 0,
+  })
+  if (result.files > 0) {
+    queuePurgeReceipt('upload', result)
+  }
+}
+
+// 保管期間を過ぎた送信済みのデータを削除
+async function purgeExpiredData(): Promise<void> {
+  if (!config) return
+
+  const keepDays = resolveRetentionPolicy(config).keep_days
+  if (keepDays === 0) return
+
+  const result = purgeUploadedData(getRecordingsDir(), {
+    olderThan: new Date(Date.now() - keepDays * 24 * 60 * 60 * 1000),
+    includeJournals: true,
+  })
+  if (result.files > 0) {
+    queuePurgeReceipt('retention', result)
+  }
+}
+
+// 利用者の操作で端末内のデータをすべて削除（未送信のデータも含む）
+async function deleteAllLocalData(): Promise<void> {
+  if (!recorder) return
+
+  const unsentScreenshots =
+    recorder.getStats().totalScreenshots +
+    (outbox?.list().reduce((sum, batch) => sum + batch.screenshotsCount, 0) ?? 0)
+  const warning =
+    unsentScreenshots > 0
+      ? `\n\n未送信の${unsentScreenshots}枚のスクリーンショットも削除され、調査結果に含まれません。`
+      : ''
+  const confirm = await dialog.showMessageBox({
+    type: 'warning',
+    title: '端末内のデータを削除',
+    message: '端末内の記録データをすべて削除しますか？',
+    detail: `スクリーンショット・サムネイル・記録の履歴を上書きして削除します。元に戻すことはできません。${warning}`,
+    buttons: ['キャンセル', '削除する'],
+    defaultId: 0,
+    cancelId: 0,
+  })
+  if (confirm.response !== 1) return
+
+  // 送信中のバッチを消さないよう、自動再送を止めて実行中の送信が終わるのを待つ
+  outbox?.stopAutoRetry()
+  await outbox?.waitForDrain()
+
+  // 現在のセッションを閉じてから削除し、新しいセッションで記録を続ける
+  const pauseReason = recorder.getPauseReason()
+  recorder.endSession()
+  const result = purgeAllLocalData(getRecordingsDir())
+  queuePurgeReceipt('user', result)
+  startOutboxAutoRetry()
+  await recorder.start()
+  if (pauseReason) {
+    recorder.pause(pauseReason)
+  }
+
+  updateTrayMenu()
+  if (mainWindow !== null && !mainWindow.isDestroyed()) {
+    mainWindow.webContents.send('recording-status', recorder.isRecording())
+  }
+
+  await dialog.showMessageBox({
+    type: 'info',
+    title: '端末内のデータを削除',
+    message: '端末内の記録データを削除しました',
+    detail: `${result.files}件のファイルを削除しました。`,
+  })
+}
+
+// 設定（記録ポリシー）からレコーダーの設定を作成
+function getRecorderPolicyOptions(current: Config): RecorderPolicyOptions {
+  const policy = resolveRecordingPolicy(current)
+  return {
+    intervalMs: policy.interval_seconds * 1000,
+    excludedApps: policy.excluded_apps,
+    jpegQuality: policy.jpeg_quality,
+    imageFormat: policy.image_format,
+    webpQuality: policy.webp_quality,
+    maxImageWidth: policy.max_image_width,
+    maxImageHeight: policy.max_image_height,
+    grayscale: policy.grayscale,
+    thumbnailWidth: policy.thumbnail_width,
+    thumbnailQuality: policy.thumbnail_quality,
+    storageBudgetMb: policy.storage_budget_mb,
+    skipDuplicateFrames: policy.skip_duplicate_frames,
+    duplicateFrameDistance: policy.duplicate_frame_distance,
+    captureOnWindowChange: policy.capture_on_window_change,
+    captureOnClipboard: policy.capture_on_clipboard,
+    captureOnInputBurst: policy.capture_on_input_burst,
+    eventCaptureMinGapSeconds: policy.event_capture_min_gap_seconds,
+    eventCaptureMaxPerHour: policy.event_capture_max_per_hour,
+    trackActiveWindow: current.track_active_window !== false,
+    hasAccessibilityPermission,
+    captureMode: current.capture_mode,
+    redactionRules: current.redaction_rules,
+    ocrEnabled: current.ocr_enabled === true,
+    ocrLanguages: current.ocr_languages,
+  }
+}
+
+// スケジュール表示用の日時（例: 2/3 09:00）
+function formatScheduleTime(isoString: string): string {
+  const date = new Date(isoString)
+  const hours = date.getHours().toString().padStart(2, '0')
+  const minutes = date.getMinutes().toString().padStart(2, '0')
+  return `${date.getMonth() + 1}/${date.getDate()} ${hours}:${minutes}`
+}
+
+// 調査開始日・記録時間帯に合わせて自動で一時停止/再開
+function applySchedule(): void {
+  if (!config || !recorder) return
+
+  const next = getScheduleState(config)
+  const changed = JSON.stringify(next) !== JSON.stringify(scheduleState)
+  scheduleState = next
+
+  if (next.status !== 'active') {
+    if (recorder.isRecording()) {
+      recorder.pause('schedule')
+      pausedBySchedule = true
+      console.log('スケジュールにより一時停止:', next.status)
+    }
+  } else if (pausedBySchedule) {
+    recorder.resume()
+    pausedBySchedule = false
+    console.log('スケジュールにより記録を再開')
+  }
+
+  if (changed) {
+    updateTrayMenu()
+    if (mainWindow !== null && !mainWindow.isDestroyed()) {
+      mainWindow.webContents.send('schedule-status', scheduleState)
+      mainWindow.webContents.send('recording-status', recorder.isRecording())
+    }
+  }
+}
+
+// 現在のセッションを封印して送信キューに追加（封印した場合はtrue）
+async function sealSession(): Promise<boolean> {
+  if (!recorder || !config || !outbox) return false
+
+  const data = recorder.exportData()
+  if (data.screenshots.length === 0) return false
+
+  const batch = await new Uploader(config, secureStore).seal(data, outbox)
+  console.log(`[OUTBOX] バッチ作成: ${batch.id} (${batch.screenshotsCount}枚)`)
+  recorder.endSession()
+  if (batch.metadataErrors) {
+    // 記録はエラーを添えて封印済み（管理者に確認を依頼）
+    await notifyUploadFailure({
+      source: 'auto',
+      error: `Invalid metadata: ${batch.metadataErrors.slice(0, 5).join(', ')}`,
+      screenshotsCount: batch.screenshotsCount,
+    })
+  }
+  return true
+}
+
+// 封印の失敗を管理者に通知（記録はセッションに残したまま）
+async function notifySealFailure(source: 'auto' | 'manual', error: unknown): Promise<void> {
+  await notifyUploadFailure({
+    source,
+    error: `Seal failed: ${error}`,
+    screenshotsCount: recorder?.getStats().totalScreenshots ?? 0,
+  })
+}
+
+function createRecorder(): Recorder {
+  return new Recorder({
+    dataDir: getRecordingsDir(),
+    store: secureStore ?? undefined,
+    ...getRecorderPolicyOptions(config!),
+    onStorageBudgetExceeded: () => notifyStorageBudgetExceeded(),
+  })
+}
+
+// セッションを封印し、新しいセッションで記録を続ける（作業のタグ・一時停止の状態は引き継ぐ）
+async function sealAndContinue(): Promise<void> {
+  if (!recorder) return
+
+  const currentTask = recorder.getCurrentTask()
+  const pauseReason = recorder.getPauseReason()
+  if (!(await sealSession())) return
+
+  recorder = createRecorder()
+  await recorder.start()
+  if (currentTask) {
+    recorder.setTask(currentTask)
+  }
+  if (pauseReason) {
+    recorder.pause(pauseReason)
+  }
+  applySchedule()
+  updateTrayMenu()
+  if (mainWindow !== null && !mainWindow.isDestroyed()) {
+    mainWindow.webContents.send('recording-status', recorder.isRecording())
+  }
+}
+
+// 送信済みの画像を減らしても保存容量の上限を超えた（未送信のデータが多すぎる）
+function notifyStorageBudgetExceeded(): void {
+  updateTrayMenu()
+  if (!Notification.isSupported()) return
+
+  const message = '保存容量の上限に達しました。ネットワークに接続して送信してください。'
+  new Notification({
+    title: 'AI Check Recorder',
+    body: `${message}\n${getSupportContactMessage()}`,
+  }).show()
+}
+
+// 送信結果の失敗を管理者と利用者に通知
+async function handleDrainResult(source: 'auto' | 'manual', result: DrainResult): Promise<void> {
+  if (result.sent > 0) {
+    await purgeAfterUpload()
+    // 送信済みの画像は容量の上限に合わせて減らせるため、警告の状態を更新
+    void recorder?.checkStorage().then(() => updateTrayMenu())
+  }
+  if (result.failed === 0) return
+
+  await notifyUploadFailure({
+    source,
+    error: result.lastError || '',
+    screenshotsCount: result.remainingScreenshots,
+  })
+  if (source === 'auto') {
+    notifyUserFailure('自動送信に失敗しました。通信が回復したら自動で再送します。')
+  }
+}
+
+// 調査終了: 送信キューを空にしてからアプリを終了
+async function finishStudy(title: string, message: string, detail: string): Promise<void> {
+  if (finishingStudy) return
+  finishingStudy = true
+
+  recorder?.stop()
+  updateTrayMenu()
+
+  // 封印に失敗した場合、記録はセッションにしか残っていない
+  let sealed = false
+  try {
+    await sealSession()
+    sealed = true
+  } catch (error) {
+    console.error('最終バッチ作成失敗:', error)
+    await notifySealFailure('auto', error)
+  }
+
+  // 利用者が未送信のデータを破棄することを承諾したか
+  let acceptedLoss = false
+
+  // 送信キューが空になるまで終了しない（利用者がデータ破棄を承諾した場合を除く）
+  while (outbox && config && outbox.pendingCount() > 0) {
+    const result = await outbox.drain(new Uploader(config, secureStore), { force: true })
+    if (result.remaining === 0) break
+
+    await handleDrainResult('auto', result)
+    const choice = await dialog.showMessageBox({
+      type: 'warning',
+      title: '未送信のデータがあります',
+      message: `${result.remainingScreenshots}枚のスクリーンショットがまだ送信されていません`,
+      detail: 'ネットワーク接続を確認して「再試行」を押してください。',
+      buttons: ['再試行', '送信せずに終了'],
+      defaultId: 0,
+      cancelId: 0,
+    })
+    if (choice.response !== 1) continue
+
+    const confirm = await dialog.showMessageBox({
+      type: 'warning',
+      title: '確認',
+      message: '未送信のデータを送信せずに終了しますか？',
+      detail: '送信されなかったデータは調査結果に含まれません。',
+      buttons: ['キャンセル', '送信せずに終了'],
+      defaultId: 0,
+      cancelId: 0,
+    })
+    if (confirm.response === 1) {
+      acceptedLoss = true
+      break
+    }
+  }
+
+  // 送信用にまとめられなかった記録は、利用者が承諾した場合のみ削除する
+  const wipeEnabled = !!config && resolveRetentionPolicy(config).wipe_at_study_end
+  if (wipeEnabled && !sealed && !acceptedLoss) {
+    const choice = await dialog.showMessageBox({
+      type: 'warning',
+      title: '送信できなかった記録があります',
+      message: '最後の記録を送信用にまとめられませんでした',
+      detail:
+        '端末に残した場合は、次回の起動時に送信を再試行できます。削除した記録は調査結果に含まれません。',
+      buttons: ['端末に残して終了', '削除して終了'],
+      defaultId: 0,
+      cancelId: 0,
+    })
+    acceptedLoss = choice.response === 1
+  }
+
+  // 調査終了後は端末内にデータを残さない（保管ポリシーで無効にした場合を除く）
+  // すべて封印して送信できた場合か、利用者が破棄を承諾した場合のみ削除する
+  const allSent = sealed && (outbox?.pendingCount() ?? 0) === 0
+  if (wipeEnabled && (allSent || acceptedLoss)) {
+    outbox?.stopAutoRetry()
+    await outbox?.waitForDrain()
+    const result = purgeAllLocalData(getRecordingsDir())
+    queuePurgeReceipt('study_end', result)
+    // 終了前に削除の報告を送る（送れなければ次回の起動時に再送）
+    if (outbox && config) {
+      await outbox.drain(new Uploader(config, secureStore), { force: true })
+    }
+  }
+
+  await dialog.showMessageBox({
+    type: 'info',
+    title,
+    message,
+    detail,
+  })
+
+  outbox?.stopAutoRetry()
+  recorder?.stop()
+  app.exit(0)
+}
+
 async function promptForToken(): Promise<string | null> {
   return await new Promise((resolve) => {
     let resolved = false
@@ -280,6 +750,31 @@ function createWindow() {
   })
 }
 
+// 作業のタグを付ける画面を表示
+function showAnnotationPrompt(): void {
+  if (mainWindow === null || mainWindow.isDestroyed()) {
+    createWindow()
+  }
+  mainWindow?.show()
+  mainWindow?.focus()
+  mainWindow?.webContents.send('show-annotate-screen')
+}
+
+// 作業の一覧が配信されている場合のみショートカットを登録
+function registerAnnotationShortcut(): void {
+  globalShortcut.unregisterAll()
+  if (!config?.task_labels?.length) return
+
+  const accelerator = config.annotation_shortcut || DEFAULT_ANNOTATION_SHORTCUT
+  try {
+    if (!globalShortcut.register(accelerator, showAnnotationPrompt)) {
+      console.log('ショートカットを登録できませんでした:', accelerator)
+    }
+  } catch (error) {
+    console.error('ショートカットの形式が不正です:', accelerator, error)
+  }
+}
+
 function createTray() {
   // トレイアイコン（16x16のシンプルなアイコン）
   const iconPath = isDev
@@ -311,14 +806,45 @@ function createTray() {
 function updateTrayMenu() {
   const isRecording = recorder?.isRecording() ?? false
 
+  let statusLabel = isRecording ? '⏺ 記録中...' : '⏸ 一時停止中'
+  if (scheduleState.status === 'waiting') {
+    statusLabel = `⏳ ${formatScheduleTime(scheduleState.until)} まで待機中`
+  } else if (scheduleState.status === 'outside') {
+    statusLabel = scheduleState.until
+      ? `🌙 記録時間外（${formatScheduleTime(scheduleState.until)} から記録）`
+      : '🌙 記録時間外'
+  }
+
+  const currentTask = recorder?.getCurrentTask() ?? null
+  const storageExceeded = recorder?.getStorageStatus()?.exceeded ?? false
+
   const contextMenu = Menu.buildFromTemplate([
     {
-      label: isRecording ? '⏺ 記録中...' : '⏸ 一時停止中',
+      label: statusLabel,
       enabled: false,
     },
+    {
+      label: `📝 ${currentTask}`,
+      enabled: false,
+      visible: currentTask !== null,
+    },
+    {
+      label: '⚠ 保存容量の上限に達しています（送信してください）',
+      enabled: false,
+      visible: storageExceeded,
+    },
     { type: 'separator' },
+    {
+      label: '作業内容を記録...',
+      visible: (config?.task_labels?.length ?? 0) > 0,
+      click: () => {
+        showAnnotationPrompt()
+      },
+    },
     {
       label: isRecording ? '一時停止' : '記録を再開',
+      // 記録時間外は再開できない
+      enabled: scheduleState.status === 'active',
       click: () => {
         if (isRecording) {
           recorder?.pause()
@@ -343,6 +869,12 @@ function updateTrayMenu() {
       },
     },
     { type: 'separator' },
+    {
+      label: '端末内のデータをすべて削除...',
+      click: () => {
+        deleteAllLocalData().catch((error) => console.error('Failed to delete local data:', error))
+      },
+    },
     {
       label: 'トークン再設定',
       click: async () => {
@@ -451,11 +983,33 @@ async function initializeApp() {
     return
   }
 
+  // アクティブウィンドウ記録が有効な場合はアクセシビリティ権限も確認
+  if (config.track_active_window !== false) {
+    await checkAccessibilityPermission()
+  }
+
+  // 画像・ジャーナルの暗号化鍵（OSのキーチェーンで保護）
+  secureStore = SecureStore.open(
+    path.join(app.getPath('userData'), 'data-key.bin'),
+    config.encrypt_local_data !== false
+  )
+
+  const dataDir = getRecordingsDir()
+  clearOcrTempFiles(dataDir)
+
   // レコーダーを初期化
-  recorder = new Recorder({
-    intervalMs: 60000, // 60秒間隔
-    dataDir: path.join(app.getPath('userData'), 'recordings'),
-  })
+  recorder = createRecorder()
+
+  // 送信キュー（前回起動時の未送信バッチも含む）
+  outbox = new UploadOutbox(dataDir)
+  startOutboxAutoRetry()
+
+  // 保管期間を過ぎた送信済みのデータを削除
+  const runRetention = () => {
+    purgeExpiredData().catch((error) => console.error('Retention purge error:', error))
+  }
+  runRetention()
+  setInterval(runRetention, RETENTION_CHECK_INTERVAL_MS)
 
   // 記録開始
   await recorder.start()
@@ -463,6 +1017,7 @@ async function initializeApp() {
   createWindow()
   createTray()
   updateTrayMenu()
+  registerAnnotationShortcut()
 
   // 初期状態を送信
   mainWindow?.webContents.on('did-finish-load', () => {
@@ -470,59 +1025,73 @@ async function initializeApp() {
       subjectName: config?.subject_name,
       projectName: config?.project_name,
     })
-    mainWindow?.webContents.send('recording-status', true)
+    mainWindow?.webContents.send('recording-status', recorder?.isRecording() ?? false)
+    mainWindow?.webContents.send('schedule-status', scheduleState)
   })
 
-  // 自動アップロード（50枚以上で送信）
-  const AUTO_UPLOAD_THRESHOLD = 50
-  const CHECK_INTERVAL_MS = 5 * 60 * 1000 // 5分ごとにチェック
+  // 調査開始日・記録時間帯のチェック
+  applySchedule()
+  setInterval(applySchedule, SCHEDULE_CHECK_INTERVAL_MS)
+
+  // 自動アップロード（記録ポリシーの枚数以上で送信。既定50枚・5分ごとにチェック）
+  let autoUploadTimer: NodeJS.Timeout | null = null
 
   const runAutoUploadCheck = async () => {
     console.log('[AUTO-UPLOAD] チェック実行... recorder:', !!recorder, 'config:', !!config)
     if (!recorder || !config) return
     const stats = recorder.getStats()
-    console.log(`[AUTO-UPLOAD] screenshots: ${stats.totalScreenshots}, threshold: ${AUTO_UPLOAD_THRESHOLD}`)
-    if (stats.totalScreenshots < AUTO_UPLOAD_THRESHOLD) return
-
-    console.log(`[AUTO-UPLOAD] 開始: ${stats.totalScreenshots}枚`)
-    try {
-      const uploader = new Uploader(config)
-      const data = recorder.exportData()
-      console.log('[AUTO-UPLOAD] upload() 呼び出し...')
-      const result = await uploader.upload(data)
-      console.log('[AUTO-UPLOAD] upload() 結果:', JSON.stringify(result))
-
-      if (result.success) {
-        console.log('自動アップロード成功')
-        recorder.stop()
-        recorder = new Recorder({
-          intervalMs: 60000,
-          dataDir: path.join(app.getPath('userData'), 'recordings'),
-        })
-        await recorder.start()
-      } else {
-        await notifyUploadFailure({
-          source: 'auto',
-          error: result.message,
-          screenshotsCount: stats.totalScreenshots,
-        })
-        notifyUserFailure('自動送信に失敗しました。')
+    const threshold = resolveRecordingPolicy(config).upload_threshold
+    console.log(`[AUTO-UPLOAD] screenshots: ${stats.totalScreenshots}, threshold: ${threshold}`)
+
+    // 閾値以上溜まったらバッチとして封印し、新しいセッションで記録を続ける
+    if (stats.totalScreenshots >= threshold) {
+      console.log(`[AUTO-UPLOAD] 開始: ${stats.totalScreenshots}枚`)
+      try {
+        await sealAndContinue()
+      } catch (error) {
+        console.error('自動アップロード失敗:', error)
+        await notifySealFailure('auto', error)
       }
-    } catch (error) {
-      console.error('自動アップロード失敗:', error)
-      await notifyUploadFailure({
-        source: 'auto',
-        error: String(error),
-        screenshotsCount: stats.totalScreenshots,
-      })
-      notifyUserFailure('自動送信に失敗しました。')
     }
+
+    if (!outbox || outbox.pendingCount() === 0) return
+    const result = await outbox.drain(new Uploader(config, secureStore))
+    console.log('[AUTO-UPLOAD] 送信結果:', JSON.stringify(result))
+    await handleDrainResult('auto', result)
+  }
+
+  const scheduleAutoUploadCheck = () => {
+    if (autoUploadTimer) {
+      clearInterval(autoUploadTimer)
+    }
+    const minutes = resolveRecordingPolicy(config!).upload_check_interval_minutes
+    autoUploadTimer = setInterval(runAutoUploadCheck, minutes * 60 * 1000)
   }
 
-  setInterval(runAutoUploadCheck, CHECK_INTERVAL_MS)
+  scheduleAutoUploadCheck()
   // 起動後も1回すぐチェック（既に50枚以上溜まっている場合用）
   setTimeout(runAutoUploadCheck, 60 * 1000) // 1分後に1回目
 
+  // 記録ポリシーを定期的に再取得して反映
+  setInterval(async () => {
+    if (!config) return
+
+    const latest = await fetchConfigFromApi(config.api_url, config.token)
+    if (!latest) return
+
+    const previousCadence = resolveRecordingPolicy(config).upload_check_interval_minutes
+    config = { ...config, ...latest }
+    saveConfig(config)
+
+    recorder?.updateOptions(getRecorderPolicyOptions(config))
+    registerAnnotationShortcut()
+    updateTrayMenu()
+    if (resolveRecordingPolicy(config).upload_check_interval_minutes !== previousCadence) {
+      scheduleAutoUploadCheck()
+    }
+    console.log('記録ポリシーを更新しました')
+  }, POLICY_REFRESH_INTERVAL_MS)
+
   // リモート停止チェック（5分ごと）
   setInterval(async () => {
     if (!config) return
@@ -537,24 +1106,12 @@ async function initializeApp() {
         if (data.should_stop) {
           console.log('リモート停止命令を受信:', data.message)
 
-          // 最終アップロードを実行
-          if (recorder) {
-            const uploader = new Uploader(config)
-            const exportData = recorder.exportData()
-            await uploader.upload(exportData)
-          }
-
-          // 完了メッセージを表示
-          await dialog.showMessageBox({
-            type: 'info',
-            title: '調査完了',
-            message: '業務改善チェックが完了しました',
-            detail: data.message || 'ご協力ありがとうございました。このアプリを終了します。',
-          })
-
-          // アプリを終了
-          recorder?.stop()
-          app.exit(0)
+          // 最終アップロードを実行してから終了
+          await finishStudy(
+            '調査完了',
+            '業務改善チェックが完了しました',
+            data.message || 'ご協力ありがとうございました。このアプリを終了します。'
+          )
         }
       }
     } catch (error) {
@@ -566,29 +1123,17 @@ async function initializeApp() {
   // 調査期間終了チェック
   if (config.recording_end_date) {
     const checkEndDate = () => {
-      const endDate = new Date(config!.recording_end_date!)
+      const endDate = parseScheduleDate(config!.recording_end_date!)
       const now = new Date()
 
       if (now >= endDate) {
         console.log('調査期間終了')
         // 最終アップロードを実行してから終了
-        ;(async () => {
-          if (recorder && config) {
-            const uploader = new Uploader(config)
-            const exportData = recorder.exportData()
-            await uploader.upload(exportData)
-          }
-
-          await dialog.showMessageBox({
-            type: 'info',
-            title: '調査期間終了',
-            message: '業務改善チェックの調査期間が終了しました',
-            detail: 'ご協力ありがとうございました。このアプリを終了します。',
-          })
-
-          recorder?.stop()
-          app.exit(0)
-        })()
+        finishStudy(
+          '調査期間終了',
+          '業務改善チェックの調査期間が終了しました',
+          'ご協力ありがとうございました。このアプリを終了します。'
+        )
       }
     }
 
@@ -601,17 +1146,47 @@ async function initializeApp() {
 
 // IPC ハンドラー
 ipcMain.handle('get-config', () => {
-  return config
+  // 画面にはトークン・資格情報を渡さない
+  return config ? toRendererConfig(config) : null
 })
 
 ipcMain.handle('get-recording-status', () => {
   return recorder?.isRecording() ?? false
 })
 
+ipcMain.handle('get-schedule-status', () => {
+  return scheduleState
+})
+
 ipcMain.handle('get-recording-stats', () => {
   return recorder?.getStats()
 })
 
+// ローカル分析（端末内で集計し、外部には送らない）
+ipcMain.handle('get-analytics-days', () => {
+  return listAnalyticsDates(recorder?.getSessionHistory() ?? [])
+})
+
+ipcMain.handle('get-daily-analytics', (_, date: string) => {
+  return buildDailyAnalytics(recorder?.getSessionHistory() ?? [], date)
+})
+
+// 作業のタグ
+ipcMain.handle('get-task-state', () => {
+  return {
+    labels: config?.task_labels ?? [],
+    current: recorder?.getCurrentTask() ?? null,
+  }
+})
+
+ipcMain.handle('set-current-task', (_, label: string | null) => {
+  // 配信された作業の一覧にないタグは付けない
+  if (label !== null && !config?.task_labels?.includes(label)) return false
+  recorder?.setTask(label)
+  updateTrayMenu()
+  return true
+})
+
 ipcMain.handle('stop-recording', async () => {
   recorder?.stop()
   updateTrayMenu()
@@ -626,30 +1201,58 @@ ipcMain.handle('delete-screenshot', async (_, id: string) => {
   return recorder?.deleteScreenshot(id)
 })
 
+ipcMain.handle('get-screenshot-image', async (_, id: string, kind: 'screenshot' | 'thumbnail') => {
+  const image = recorder?.readImage(id, kind === 'screenshot' ? 'screenshot' : 'thumbnail')
+  if (!image) return null
+  return `data:${imageMimeType(image)};base64,${image.toString('base64')}`
+})
+
+// 画面内の文字で検索（端末内の索引のみを使う）
+ipcMain.handle('get-ocr-status', () => {
+  return recorder?.getOcrStatus() ?? { enabled: false, pending: 0 }
+})
+
+ipcMain.handle('search-screenshot-text', (_, query: string) => {
+  return recorder?.searchText(String(query)) ?? []
+})
+
+ipcMain.handle(
+  'redact-screenshot',
+  async (_, id: string, regions: Array<{ x: number; y: number; width: number; height: number }>) => {
+    try {
+      return (await recorder?.redactScreenshot(id, regions)) ?? false
+    } catch (error) {
+      console.error('Failed to redact screenshot:', error)
+      return false
+    }
+  }
+)
+
 ipcMain.handle('upload-data', async () => {
-  if (!config || !recorder) {
+  if (!config || !recorder || !outbox) {
     return { success: false, error: '設定が読み込まれていません' }
   }
 
-  const uploader = new Uploader(config)
-  const data = recorder.exportData()
+  const screenshotsCount = recorder.getStats().totalScreenshots
 
   try {
-    const result = await uploader.upload(data)
-    if (!result.success) {
-      await notifyUploadFailure({
-        source: 'manual',
-        error: result.message,
-        screenshotsCount: data.stats.totalScreenshots,
-      })
-      return { success: false, error: result.message }
+    // 送信後も記録を続ける
+    await sealAndContinue()
+
+    const uploader = new Uploader(config, secureStore, (progress) => {
+      mainWindow?.webContents.send('upload-progress', progress)
+    })
+    const result = await outbox.drain(uploader, { force: true })
+    if (result.remaining > 0) {
+      await handleDrainResult('manual', result)
+      return { success: false, error: result.lastError || '送信できなかったデータがあります' }
     }
     return { success: true, result }
   } catch (error) {
     await notifyUploadFailure({
       source: 'manual',
       error: String(error),
-      screenshotsCount: data.stats.totalScreenshots,
+      screenshotsCount,
     })
     return { success: false, error: String(error) }
   }
@@ -661,6 +1264,8 @@ ipcMain.on('pause-recording', () => {
 })
 
 ipcMain.on('resume-recording', () => {
+  // 記録時間外は再開しない
+  if (scheduleState.status !== 'active') return
   recorder?.resume()
   updateTrayMenu()
 })
@@ -668,6 +1273,10 @@ ipcMain.on('resume-recording', () => {
 // アプリ起動
 app.whenReady().then(initializeApp)
 
+app.on('will-quit', () => {
+  globalShortcut.unregisterAll()
+})
+
 app.on('window-all-closed', () => {
   // トレイに常駐するため、ウィンドウが閉じてもアプリは終了しない
 })
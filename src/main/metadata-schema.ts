@@ -0,0 +1,340 @@
+import type { RedactionLogEntry } from './redactor'
+
+/**
+ * metadata.json のスキーマ（v2）
+ * 分析パイプラインが依存するため、項目の追加は可・変更や削除はバージョンを上げること
+ */
+export const METADATA_SCHEMA_VERSION = '2.0'
+
+export interface DisplayInfoV2 {
+  id: string
+  width: number
+  height: number
+  scale_factor: number
+  primary: boolean
+}
+
+export interface DeviceInfoV2 {
+  os: 'macOS' | 'Windows' | 'Linux' | string
+  os_version: string
+  arch: string
+  hostname: string
+  app_version: string
+  displays: DisplayInfoV2[]
+}
+
+export interface IntervalV2 {
+  start: string
+  end: string | null
+}
+
+export interface IdleIntervalV2 extends IntervalV2 {
+  reason: 'idle' | 'lock' | 'suspend'
+}
+
+export interface TaskIntervalV2 extends IntervalV2 {
+  label: string
+}
+
+export interface SessionV2 {
+  id: string | null
+  start: string
+  end: string
+  total_active_seconds: number
+  total_idle_seconds: number
+  total_paused_seconds: number
+  app_summary: Record<string, number>
+}
+
+export interface EventV2 {
+  id: string
+  timestamp: string
+  app: string
+  title: string
+  duration_seconds: number
+  display_id: string
+  screenshot: string
+  thumbnail: string
+  redactions: RedactionLogEntry[]
+  // 撮影時に対象者が付けていた作業のタグ
+  task: string | null
+  // ほぼ同じ画面のため保存せず、この画像を参照した撮影の回数（使用時間は duration_seconds に含む）
+  repeat_count: number
+  // 撮影のきっかけ（timer=定期撮影 / window=ウィンドウの切り替え / clipboard=コピー / input=操作の再開）
+  trigger: 'timer' | 'window' | 'clipboard' | 'input'
+  // 端末内で認識した画面内の文字（送信が有効な場合のみ）
+  text?: string
+}
+
+export interface MetadataV2 {
+  schema_version: typeof METADATA_SCHEMA_VERSION
+  exported_at: string
+  batch: { id: string; sequence: number }
+  study: { token: string; project_name: string; subject_name: string }
+  device: DeviceInfoV2
+  session: SessionV2
+  intervals: { idle: IdleIntervalV2[]; pause: IntervalV2[]; task: TaskIntervalV2[] }
+  events: EventV2[]
+  encrypted_payloads: boolean
+  encryption: { algorithm: string; key_fingerprint: string } | null
+}
+
+// === 検証 ===
+
+type Check = (value: unknown) => boolean
+
+const isString: Check = (v) => typeof v === 'string'
+const isNumber: Check = (v) => typeof v === 'number' && Number.isFinite(v)
+const isBoolean: Check = (v) => typeof v === 'boolean'
+const isTimestamp: Check = (v) => typeof v === 'string' && !Number.isNaN(Date.parse(v))
+const isNullableTimestamp: Check = (v) => v === null || isTimestamp(v)
+const isObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v)
+
+// フィールドごとの検証ルール（パスと判定関数）
+function checkFields(
+  value: unknown,
+  prefix: string,
+  fields: Record<string, Check>,
+  errors: string[]
+): void {
+  if (!isObject(value)) {
+    errors.push(`${prefix}: object expected`)
+    return
+  }
+  for (const [key, check] of Object.entries(fields)) {
+    if (!check(value[key])) {
+      errors.push(`${prefix}.${key}: invalid value`)
+    }
+  }
+}
+
+function checkArray(
+  value: unknown,
+  prefix: string,
+  checkItem: (item: unknown, path: string) => void,
+  errors: string[]
+): void {
+  if (!Array.isArray(value)) {
+    errors.push(`${prefix}: array expected`)
+    return
+  }
+  value.forEach((item, i) => checkItem(item, `${prefix}[${i}]`))
+}
+
+/**
+ * v2 メタデータを検証し、問題のある項目の一覧を返す（問題なければ空）
+ */
+export function validateMetadataV2(value: unknown): string[] {
+  const errors: string[] = []
+  if (!isObject(value)) return ['metadata: object expected']
+
+  if (value.schema_version !== METADATA_SCHEMA_VERSION) {
+    errors.push('schema_version: unsupported version')
+  }
+  if (!isTimestamp(value.exported_at)) errors.push('exported_at: invalid value')
+
+  checkFields(value.batch, 'batch', { id: isString, sequence: isNumber }, errors)
+  checkFields(
+    value.study,
+    'study',
+    { token: isString, project_name: isString, subject_name: isString },
+    errors
+  )
+  checkFields(
+    value.device,
+    'device',
+    {
+      os: isString,
+      os_version: isString,
+      arch: isString,
+      hostname: isString,
+      app_version: isString,
+    },
+    errors
+  )
+  if (isObject(value.device)) {
+    checkArray(
+      value.device.displays,
+      'device.displays',
+      (item, path) =>
+        checkFields(
+          item,
+          path,
+          {
+            id: isString,
+            width: isNumber,
+            height: isNumber,
+            scale_factor: isNumber,
+            primary: isBoolean,
+          },
+          errors
+        ),
+      errors
+    )
+  }
+
+  checkFields(
+    value.session,
+    'session',
+    {
+      id: (v) => v === null || isString(v),
+      start: isTimestamp,
+      end: isTimestamp,
+      total_active_seconds: isNumber,
+      total_idle_seconds: isNumber,
+      total_paused_seconds: isNumber,
+      app_summary: (v) => isObject(v) && Object.values(v).every(isNumber),
+    },
+    errors
+  )
+
+  if (!isObject(value.intervals)) {
+    errors.push('intervals: object expected')
+  } else {
+    checkArray(
+      value.intervals.idle,
+      'intervals.idle',
+      (item, path) =>
+        checkFields(
+          item,
+          path,
+          {
+            start: isTimestamp,
+            end: isNullableTimestamp,
+            reason: (v) => v === 'idle' || v === 'lock' || v === 'suspend',
+          },
+          errors
+        ),
+      errors
+    )
+    checkArray(
+      value.intervals.pause,
+      'intervals.pause',
+      (item, path) =>
+        checkFields(item, path, { start: isTimestamp, end: isNullableTimestamp }, errors),
+      errors
+    )
+    checkArray(
+      value.intervals.task,
+      'intervals.task',
+      (item, path) =>
+        checkFields(
+          item,
+          path,
+          { label: isString, start: isTimestamp, end: isNullableTimestamp },
+          errors
+        ),
+      errors
+    )
+  }
+
+  checkArray(
+    value.events,
+    'events',
+    (item, path) =>
+      checkFields(
+        item,
+        path,
+        {
+          id: isString,
+          timestamp: isTimestamp,
+          app: isString,
+          title: isString,
+          duration_seconds: (v) => isNumber(v) && (v as number) >= 0,
+          display_id: isString,
+          screenshot: isString,
+          thumbnail: isString,
+          redactions: Array.isArray,
+          task: (v) => v === null || isString(v),
+          repeat_count: (v) => isNumber(v) && (v as number) >= 0,
+          trigger: (v) => v === 'timer' || v === 'window' || v === 'clipboard' || v === 'input',
+          text: (v) => v === undefined || isString(v),
+        },
+        errors
+      ),
+    errors
+  )
+
+  if (!isBoolean(value.encrypted_payloads)) errors.push('encrypted_payloads: invalid value')
+  if (value.encryption !== null) {
+    checkFields(
+      value.encryption,
+      'encryption',
+      { algorithm: isString, key_fingerprint: isString },
+      errors
+    )
+  }
+
+  return errors
+}
+
+// === v1 形式への変換 ===
+
+/**
+ * v2 メタデータを従来の v1 形式に変換（v1 を読む既存のバックエンド向け）
+ */
+export function toMetadataV1(metadata: MetadataV2): Record<string, unknown> {
+  // ディスプレイごとのサムネイル一覧
+  const displays: Array<{ id: string; thumbnails: string[] }> = []
+  for (const event of metadata.events) {
+    let display = displays.find((d) => d.id === event.display_id)
+    if (!display) {
+      display = { id: event.display_id, thumbnails: [] }
+      displays.push(display)
+    }
+    display.thumbnails.push(event.thumbnail)
+  }
+
+  return {
+    export_version: '1.0',
+    exported_at: metadata.exported_at,
+    batch: metadata.batch,
+    token: metadata.study.token,
+    subject_name: metadata.study.subject_name,
+    project_name: metadata.study.project_name,
+    device: {
+      os: metadata.device.os,
+      hostname: metadata.device.hostname,
+    },
+    period: {
+      start: metadata.session.start,
+      end: metadata.session.end,
+    },
+    total_active_seconds: metadata.session.total_active_seconds,
+    total_idle_seconds: metadata.session.total_idle_seconds,
+    app_summary: metadata.session.app_summary,
+    idle_intervals: metadata.intervals.idle,
+    task_intervals: metadata.intervals.task,
+    screenshots_count: metadata.events.length,
+    encrypted_payloads: metadata.encrypted_payloads,
+    encryption: metadata.encryption,
+    displays,
+    redaction_log: metadata.events.flatMap((e) =>
+      e.redactions.map((r) => ({ screenshot: e.screenshot, ...r }))
+    ),
+    events: metadata.events.map((e) => ({
+      id: e.id,
+      timestamp: e.timestamp,
+      app: e.app,
+      title: e.title,
+      duration_seconds: e.duration_seconds,
+      screenshot: e.screenshot,
+      thumbnail: e.thumbnail,
+      display_id: e.display_id,
+      task: e.task,
+      trigger: e.trigger,
+      ...(e.text !== undefined ? { text: e.text } : {}),
+    })),
+  }
+}
+
+/**
+ * 送信先のバージョンに合わせたメタデータ（v2 以外の旧バッチはそのまま）
+ */
+export function metadataForVersion(metadata: Record<string, unknown>, version: 1 | 2): object {
+  if (version === 1 && metadata.schema_version === METADATA_SCHEMA_VERSION) {
+    return toMetadataV1(metadata as unknown as MetadataV2)
+  }
+  return metadata
+}
@@ -0,0 +1,379 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import { execFile } from 'child_process'
+import type { SecureStore } from './secure-store'
+import { secureDeleteFile } from './retention'
+
+/**
+ * 端末内の文字認識（OCR）
+ * OSに標準搭載の認識機能（macOS: Vision / Windows: Windows.Media.Ocr）を別プロセスで呼び出す
+ * 画像・認識結果は端末の外に出さない（送信するかは設定で決める）
+ */
+
+// 1枚あたりの認識の制限時間
+const OCR_TIMEOUT_MS = 60 * 1000
+
+export const DEFAULT_OCR_LANGUAGES = ['ja', 'en']
+
+/**
+ * 画像の文字を認識してテキストを返す
+ * 画像（復号済み）は標準入力で渡し、平文の画像をディスクに書かない
+ */
+export type OcrEngine = (image: Buffer, languages: string[]) => Promise<string>
+
+// macOS: JavaScript for Automation から Vision を呼び出す（macOS 13以降で日本語に対応）
+const MAC_VISION_SCRIPT = `
+ObjC.import('Foundation')
+ObjC.import('Vision')
+function run(argv) {
+  const data = $.NSFileHandle.fileHandleWithStandardInput.readDataToEndOfFile
+  const request = $.VNRecognizeTextRequest.alloc.init
+  request.recognitionLevel = 0 // accurate
+  request.usesLanguageCorrection = true
+  request.recognitionLanguages = $(argv)
+  const handler = $.VNImageRequestHandler.alloc.initWithDataOptions(data, $({}))
+  if (!handler.performRequestsError($([request]), null)) return ''
+  const lines = []
+  const results = request.results
+  for (let i = 0; i < results.count; i++) {
+    const candidates = results.objectAtIndex(i).topCandidates(1)
+    if (candidates.count > 0) lines.push(candidates.objectAtIndex(0).string.js)
+  }
+  return lines.join('\\n')
+}
+`
+
+// Windows: PowerShell から Windows.Media.Ocr を呼び出す（画像は標準入力、言語は環境変数で渡す）
+const WINDOWS_OCR_SCRIPT = `
+$ErrorActionPreference = 'Stop'
+[Console]::OutputEncoding = [Text.Encoding]::UTF8
+Add-Type -AssemblyName System.Runtime.WindowsRuntime
+$null = [Windows.Storage.StorageFile, Windows.Storage, ContentType = WindowsRuntime]
+$null = [Windows.Media.Ocr.OcrEngine, Windows.Foundation, ContentType = WindowsRuntime]
+$null = [Windows.Graphics.Imaging.BitmapDecoder, Windows.Graphics, ContentType = WindowsRuntime]
+$null = [Windows.Globalization.Language, Windows.Globalization, ContentType = WindowsRuntime]
+$asTask = [System.WindowsRuntimeSystemExtensions].GetMethods() | Where-Object {
+  $_.Name -eq 'AsTask' -and $_.GetParameters().Count -eq 1 -and
+  $_.GetParameters()[0].ParameterType.Name -eq 'IAsyncOperation\`1'
+} | Select-Object -First 1
+function Await($operation, [Type]$type) {
+  $task = $asTask.MakeGenericMethod($type).Invoke($null, @($operation))
+  $null = $task.Wait(-1)
+  $task.Result
+}
+$memory = New-Object System.IO.MemoryStream
+[Console]::OpenStandardInput().CopyTo($memory)
+$memory.Position = 0
+$stream = [System.IO.WindowsRuntimeStreamExtensions]::AsRandomAccessStream($memory)
+$decoder = Await ([Windows.Graphics.Imaging.BitmapDecoder]::CreateAsync($stream)) ([Windows.Graphics.Imaging.BitmapDecoder])
+$bitmap = Await ($decoder.GetSoftwareBitmapAsync()) ([Windows.Graphics.Imaging.SoftwareBitmap])
+$engine = $null
+foreach ($tag in $env:OCR_LANGUAGES.Split(',')) {
+  $engine = [Windows.Media.Ocr.OcrEngine]::TryCreateFromLanguage([Windows.Globalization.Language]::new($tag))
+  if ($engine -ne $null) { break }
+}
+if ($engine -eq $null) { $engine = [Windows.Media.Ocr.OcrEngine]::TryCreateFromUserProfileLanguages() }
+$result = Await ($engine.RecognizeAsync($bitmap)) ([Windows.Media.Ocr.OcrResult])
+$stream.Dispose()
+$memory.Dispose()
+$result.Lines | ForEach-Object { $_.Text }
+`
+
+// 言語コードをOSの認識機能が受け付ける形式に
+const MAC_LANGUAGE_TAGS: Record<string, string> = { ja: 'ja-JP', en: 'en-US' }
+const WINDOWS_LANGUAGE_TAGS: Record<string, string> = { ja: 'ja', en: 'en-US' }
+
+// input を標準入力に書き込んでコマンドを実行
+function runCommand(
+  command: string,
+  args: string[],
+  input: Buffer,
+  env: NodeJS.ProcessEnv = process.env
+): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = execFile(
+      command,
+      args,
+      { env, timeout: OCR_TIMEOUT_MS, maxBuffer: 16 * 1024 * 1024, windowsHide: true },
+      (error, stdout) => {
+        if (error) {
+          reject(error)
+          return
+        }
+        resolve(stdout.trim())
+      }
+    )
+    // 読み込む前に終了した場合の書き込みエラーは終了時のエラーで扱う
+    child.stdin?.on('error', () => {})
+    child.stdin?.end(input)
+  })
+}
+
+/**
+ * この端末で使える認識機能（対応していないOSではnull）
+ */
+export function getPlatformOcrEngine(): OcrEngine | null {
+  switch (process.platform) {
+    case 'darwin':
+      return (image, languages) =>
+        runCommand(
+          'osascript',
+          [
+            '-l',
+            'JavaScript',
+            '-e',
+            MAC_VISION_SCRIPT,
+            ...languages.map((l) => MAC_LANGUAGE_TAGS[l] ?? l),
+          ],
+          image
+        )
+    case 'win32':
+      return (image, languages) =>
+        runCommand(
+          'powershell.exe',
+          [
+            '-NoProfile',
+            '-NonInteractive',
+            '-ExecutionPolicy',
+            'Bypass',
+            '-EncodedCommand',
+            Buffer.from(WINDOWS_OCR_SCRIPT, 'utf16le').toString('base64'),
+          ],
+          image,
+          {
+            ...process.env,
+            OCR_LANGUAGES: languages.map((l) => WINDOWS_LANGUAGE_TAGS[l] ?? l).join(','),
+          }
+        )
+    default:
+      return null
+  }
+}
+
+/**
+ * 以前の版が認識用に復号して置いた一時ファイル（異常終了で残ったもの）を上書きして削除
+ */
+export function clearOcrTempFiles(dataDir: string): void {
+  const tmpDir = path.join(dataDir, 'ocr-tmp')
+  if (!fs.existsSync(tmpDir)) return
+
+  for (const name of fs.readdirSync(tmpDir)) {
+    try {
+      secureDeleteFile(path.join(tmpDir, name))
+    } catch (error) {
+      console.error('Failed to remove OCR temp file:', error)
+    }
+  }
+  fs.rmSync(tmpDir, { recursive: true, force: true })
+}
+
+/**
+ * 検索結果（一致した箇所の前後を抜粋）
+ */
+export interface OcrSearchResult {
+  id: string
+  snippet: string
+}
+
+// 抜粋の前後の文字数
+const SNIPPET_CONTEXT = 30
+
+/**
+ * 認識したテキストの索引（記録IDごと）
+ * 1行1件のJSONで追記し、削除時は書き直す。暗号化が有効な場合は行ごとに暗号化する
+ */
+export class OcrIndex {
+  private filePath: string
+  private store: SecureStore | null
+  private texts = new Map<string, string>()
+
+  constructor(dataDir: string, store: SecureStore | null = null) {
+    this.filePath = path.join(dataDir, 'ocr-index.jsonl')
+    this.store = store
+    this.load()
+  }
+
+  has(id: string): boolean {
+    return this.texts.has(id)
+  }
+
+  get(id: string): string | null {
+    return this.texts.get(id) ?? null
+  }
+
+  set(id: string, text: string): void {
+    this.texts.set(id, text)
+    try {
+      fs.appendFileSync(this.filePath, this.toLine(id, text) + '\n')
+    } catch (error) {
+      console.error('OCR index write error:', error)
+    }
+  }
+
+  remove(id: string): void {
+    if (!this.texts.delete(id)) return
+    this.rewrite()
+  }
+
+  /**
+   * セッション完了時に索引を消す
+   */
+  clear(): void {
+    this.texts.clear()
+    if (fs.existsSync(this.filePath)) {
+      fs.unlinkSync(this.filePath)
+    }
+  }
+
+  /**
+   * 指定した記録の中から、語句をすべて含むものを探す（大文字・小文字は区別しない）
+   */
+  search(query: string, ids: string[]): OcrSearchResult[] {
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean)
+    if (terms.length === 0) return []
+
+    const results: OcrSearchResult[] = []
+    for (const id of ids) {
+      const text = this.texts.get(id)
+      if (!text) continue
+      const lower = text.toLowerCase()
+      if (!terms.every((term) => lower.includes(term))) continue
+
+      const at = lower.indexOf(terms[0])
+      const start = Math.max(0, at - SNIPPET_CONTEXT)
+      const end = Math.min(text.length, at + terms[0].length + SNIPPET_CONTEXT)
+      results.push({ id, snippet: text.slice(start, end).replace(/\s+/g, ' ') })
+    }
+    return results
+  }
+
+  private toLine(id: string, text: string): string {
+    const line = JSON.stringify({ id, text })
+    return this.store ? this.store.encryptLine(line) : line
+  }
+
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) return
+
+    for (const line of fs.readFileSync(this.filePath, 'utf8').split('\n')) {
+      if (!line.trim()) continue
+      try {
+        const entry = JSON.parse(this.store ? this.store.decryptLine(line) : line) as {
+          id: string
+          text: string
+        }
+        this.texts.set(entry.id, entry.text)
+      } catch {
+        // 書きかけ行・復号できない行は無視
+        console.log('Skipping unreadable OCR index line')
+      }
+    }
+  }
+
+  private rewrite(): void {
+    try {
+      const tmpFile = `${this.filePath}.tmp`
+      const lines = Array.from(this.texts, ([id, text]) => this.toLine(id, text) + '\n')
+      fs.writeFileSync(tmpFile, lines.join(''))
+      fs.renameSync(tmpFile, this.filePath)
+    } catch (error) {
+      console.error('OCR index write error:', error)
+    }
+  }
+}
+
+interface OcrJob {
+  id: string
+  filePath: string
+}
+
+/**
+ * 撮影後の文字認識を裏で1枚ずつ順に処理する
+ * 撮影を止めないよう、認識はOSの別プロセスで行い結果だけを索引に書き込む
+ */
+export class OcrWorker {
+  private engine: OcrEngine
+  private index: OcrIndex
+  private store: SecureStore | null
+  private languages: string[]
+  private queue: OcrJob[] = []
+  private running: OcrJob | null = null
+  // 実行中に削除・黒塗りされた記録（結果を捨てる）
+  private staleRunning = false
+
+  constructor(
+    engine: OcrEngine,
+    index: OcrIndex,
+    store: SecureStore | null = null,
+    languages: string[] = DEFAULT_OCR_LANGUAGES
+  ) {
+    this.engine = engine
+    this.index = index
+    this.store = store
+    this.languages = languages
+  }
+
+  setLanguages(languages: string[]): void {
+    this.languages = languages
+  }
+
+  /**
+   * 認識待ちに追加（同じ記録が待っていれば置き換える）
+   */
+  enqueue(job: OcrJob): void {
+    this.cancel(job.id)
+    this.queue.push(job)
+    void this.drain()
+  }
+
+  /**
+   * 認識待ち・実行中の記録を取り消す
+   */
+  cancel(id: string): void {
+    this.queue = this.queue.filter((j) => j.id !== id)
+    if (this.running?.id === id) {
+      this.staleRunning = true
+    }
+  }
+
+  /**
+   * すべて取り消す（セッション完了時）
+   */
+  cancelAll(): void {
+    this.queue = []
+    if (this.running) {
+      this.staleRunning = true
+    }
+  }
+
+  pendingCount(): number {
+    return this.queue.length + (this.running ? 1 : 0)
+  }
+
+  private async drain(): Promise<void> {
+    if (this.running) return
+
+    while (this.queue.length > 0) {
+      const job = this.queue.shift()!
+      this.running = job
+      this.staleRunning = false
+      try {
+        const text = await this.recognize(job.filePath)
+        if (!this.staleRunning) {
+          this.index.set(job.id, text)
+        }
+      } catch (error) {
+        console.error('OCR failed:', error)
+      }
+    }
+    this.running = null
+  }
+
+  // 暗号化されている場合はメモリ上で復号して認識の別プロセスに渡す
+  private async recognize(filePath: string): Promise<string> {
+    if (!fs.existsSync(filePath)) return ''
+
+    const image = this.store ? this.store.readFile(filePath) : fs.readFileSync(filePath)
+    return this.engine(image, this.languages)
+  }
+}
@@ -8,13 +8,30 @@ contextBridge.exposeInMainWorld('electronAPI', {
   // 記録状態
   getRecordingStatus: () => ipcRenderer.invoke('get-recording-status'),
   getRecordingStats: () => ipcRenderer.invoke('get-recording-stats'),
+  getScheduleStatus: () => ipcRenderer.invoke('get-schedule-status'),
   pauseRecording: () => ipcRenderer.send('pause-recording'),
   resumeRecording: () => ipcRenderer.send('resume-recording'),
   stopRecording: () => ipcRenderer.invoke('stop-recording'),
 
+  // 作業のタグ
+  getTaskState: () => ipcRenderer.invoke('get-task-state'),
+  setCurrentTask: (label: string | null) => ipcRenderer.invoke('set-current-task', label),
+
+  // ローカル分析
+  getAnalyticsDays: () => ipcRenderer.invoke('get-analytics-days'),
+  getDailyAnalytics: (date: string) => ipcRenderer.invoke('get-daily-analytics', date),
+
   // スクリーンショット
   getScreenshots: () => ipcRenderer.invoke('get-screenshots'),
   deleteScreenshot: (id: string) => ipcRenderer.invoke('delete-screenshot', id),
+  getScreenshotImage: (id: string, kind: 'screenshot' | 'thumbnail') =>
+    ipcRenderer.invoke('get-screenshot-image', id, kind),
+  getOcrStatus: () => ipcRenderer.invoke('get-ocr-status'),
+  searchScreenshotText: (query: string) => ipcRenderer.invoke('search-screenshot-text', query),
+  redactScreenshot: (
+    id: string,
+    regions: Array<{ x: number; y: number; width: number; height: number }>
+  ) => ipcRenderer.invoke('redact-screenshot', id, regions),
 
   // アップロード
   uploadData: () => ipcRenderer.invoke('upload-data'),
@@ -29,4 +46,17 @@ contextBridge.exposeInMainWorld('electronAPI', {
   onShowUploadScreen: (callback: () => void) => {
     ipcRenderer.on('show-upload-screen', () => callback())
   },
+  onShowAnnotateScreen: (callback: () => void) => {
+    ipcRenderer.on('show-annotate-screen', () => callback())
+  },
+  onUploadProgress: (
+    callback: (progress: { batchId: string; sentBytes: number; totalBytes: number }) => void
+  ) => {
+    ipcRenderer.on('upload-progress', (_, progress) => callback(progress))
+  },
+  onScheduleStatus: (
+    callback: (status: { status: 'active' | 'waiting' | 'outside'; until?: string | null }) => void
+  ) => {
+    ipcRenderer.on('schedule-status', (_, status) => callback(status))
+  },
 })
@@ -1,25 +1,121 @@
 import * as fs from 'fs'
 import * as path from 'path'
 import * as crypto from 'crypto'
-import { nativeImage } from 'electron'
+import { nativeImage, powerMonitor, screen } from 'electron'
+import { SessionJournal, RestoredSession } from './session-journal'
+import { applyRedactions, RedactionLogEntry, RedactionRule } from './redactor'
+import { computeFrameHash, frameHashDistance } from './frame-hash'
+import { CaptureTrigger, CaptureTriggerMonitor } from './capture-triggers'
+import { CaptureDisplayList } from './capture-displays'
+import {
+  ImageEncodeOptions,
+  ImageFormat,
+  decodeToJpeg,
+  detectImageFormat,
+  encodeImage,
+  prepareImage,
+} from './image-encoder'
+import { StorageStatus, enforceStorageBudget } from './storage-budget'
+import type { SecureStore } from './secure-store'
+import {
+  DEFAULT_OCR_LANGUAGES,
+  OcrIndex,
+  OcrSearchResult,
+  OcrWorker,
+  getPlatformOcrEngine,
+} from './ocr'
 
 // 動的インポート用の型
-type ScreenshotFn = (options?: { format?: 'jpg' | 'png' }) => Promise<Buffer>
-type ActiveWinFn = () => Promise<{
+type ScreenshotFn = (options?: { format?: 'jpg' | 'png'; screen?: number | string }) => Promise<Buffer>
+type ActiveWinFn = (options?: {
+  accessibilityPermission: boolean
+  screenRecordingPermission: boolean
+}) => Promise<{
   owner: { name: string }
   title: string
+  bounds: { x: number; y: number; width: number; height: number }
 } | undefined>
 
 let screenshotFn: ScreenshotFn
-let activeWinFn: ActiveWinFn
+let activeWinFn: ActiveWinFn | null = null
 
 interface RecorderOptions {
   intervalMs: number
   dataDir: string
   excludedApps?: string[]
+  // アクティブウィンドウ（アプリ名・タイトル）を取得するか
+  trackActiveWindow?: boolean
+  // macOSのアクセシビリティ権限があるか（キャッシュ済みの判定を返すこと）
+  hasAccessibilityPermission?: () => boolean
+  // この秒数以上操作がなければ離席とみなす
+  idleThresholdSeconds?: number
+  // 撮影対象: primary=メインのみ / all=全ディスプレイ / active=アクティブウィンドウのあるディスプレイ
+  captureMode?: CaptureMode
+  // 保存前に適用するマスキングルール
+  redactionRules?: RedactionRule[]
+  // スクリーンショットのJPEG品質（省略時は撮影時の画像をそのまま保存）
+  jpegQuality?: number
+  // スクリーンショットの保存形式（省略時: jpeg）とWebPの品質
+  imageFormat?: ImageFormat
+  webpQuality?: number
+  // この幅・高さに収まるよう縮小して保存（省略時は撮影時の解像度）
+  maxImageWidth?: number
+  maxImageHeight?: number
+  // グレースケールで保存
+  grayscale?: boolean
+  // サムネイル幅 (px) とJPEG品質（省略時: 60）
+  thumbnailWidth?: number
+  thumbnailQuality?: number
+  // データフォルダの容量の上限（MB、省略時は上限なし）
+  storageBudgetMb?: number
+  // 送信済みの画像を減らしても容量の上限を超えたとき（超えた状態になった時のみ呼ばれる）
+  onStorageBudgetExceeded?: (status: StorageStatus) => void
+  // 直前とほぼ同じ画面は保存せず、直前の記録を参照する（省略時: true）
+  skipDuplicateFrames?: boolean
+  // ほぼ同じとみなす知覚ハッシュの差（ビット数、256ビット中）
+  duplicateFrameDistance?: number
+  // 定期撮影に加えて撮影するきっかけ（アプリ・ウィンドウの切り替えは省略時: true）
+  captureOnWindowChange?: boolean
+  captureOnClipboard?: boolean
+  captureOnInputBurst?: boolean
+  // きっかけによる撮影の最小間隔（直前の撮影からの秒数）と1時間あたりの上限
+  eventCaptureMinGapSeconds?: number
+  eventCaptureMaxPerHour?: number
+  // 撮影後に端末内で文字認識し、索引に保存するか
+  ocrEnabled?: boolean
+  // 文字認識の言語（例: ['ja', 'en']）
+  ocrLanguages?: string[]
+  // 画像・ジャーナルの暗号化（省略時は平文で保存）
+  store?: SecureStore
 }
 
-interface ScreenshotRecord {
+// 撮影中に変更できる設定（保存先・暗号化は変更不可）
+export type RecorderPolicyOptions = Omit<RecorderOptions, 'dataDir' | 'store'>
+
+export type CaptureMode = 'primary' | 'all' | 'active'
+
+// 撮影対象のディスプレイ（id未指定はメインディスプレイ）
+interface CaptureTarget {
+  id?: number | string
+  name: string
+  active: boolean
+  // アクティブウィンドウがこの画面にあるか（画面の対応付け・ウィンドウの位置が不明ならnull）
+  windowOnDisplay: boolean | null
+}
+
+// 離席判定の既定値と確認間隔
+const DEFAULT_IDLE_THRESHOLD_SECONDS = 5 * 60
+const IDLE_CHECK_INTERVAL_MS = 15 * 1000
+const DEFAULT_DUPLICATE_FRAME_DISTANCE = 6
+const DEFAULT_EVENT_CAPTURE_MIN_GAP_SECONDS = 10
+const DEFAULT_EVENT_CAPTURE_MAX_PER_HOUR = 60
+const DEFAULT_THUMBNAIL_QUALITY = 60
+// 容量の確認間隔（撮影のたびには確認しない）
+const STORAGE_CHECK_INTERVAL_MS = 5 * 60 * 1000
+// 定期撮影が別の撮影と重なった場合に撮り直すまでの時間
+const CAPTURE_BUSY_RETRY_MS = 1000
+
+export interface ScreenshotRecord {
   id: string
   timestamp: string
   appName: string
@@ -27,6 +123,47 @@ interface ScreenshotRecord {
   filePath: string
   thumbnailPath: string
   durationSeconds: number
+  displayId: string
+  redactions: RedactionLogEntry[]
+  // 撮影時に対象者が付けていた作業のタグ（なければnull）
+  task?: string | null
+  // 画面の知覚ハッシュ（直前の画面との比較用）
+  frameHash?: string | null
+  // ほぼ同じ画面のため保存せず、この記録を参照した撮影の回数
+  repeatCount?: number
+  // 撮影のきっかけ（省略時は定期撮影）
+  trigger?: CaptureTrigger
+}
+
+/**
+ * 離席区間（無操作・画面ロック・スリープ）
+ */
+export interface IdleInterval {
+  start: string
+  end: string | null
+  reason: 'idle' | 'lock' | 'suspend'
+}
+
+/**
+ * 一時停止の理由（user=利用者の操作 / schedule=記録時間外）
+ */
+export type PauseReason = 'user' | 'schedule'
+
+/**
+ * 一時停止の区間（利用者の操作・記録時間外）
+ */
+export interface PauseInterval {
+  start: string
+  end: string | null
+}
+
+/**
+ * 対象者が付けた作業のタグの区間
+ */
+export interface TaskInterval {
+  label: string
+  start: string
+  end: string | null
 }
 
 interface RecordingStats {
@@ -34,18 +171,51 @@ interface RecordingStats {
   endTime: string | null
   totalScreenshots: number
   totalActiveSeconds: number
+  totalIdleSeconds: number
   appSummary: Record<string, number>
+  // ほぼ同じ画面のため保存しなかった撮影の回数と、全撮影に占める割合（0〜1）
+  duplicateFrames: number
+  dedupRatio: number
 }
 
 export class Recorder {
   private options: RecorderOptions
+  private journal: SessionJournal
+  private sessionId: string | null = null
   private timer: NodeJS.Timeout | null = null
+  private idleTimer: NodeJS.Timeout | null = null
   private recording = false
   private paused = false
   private screenshots: ScreenshotRecord[] = []
   private startTime: Date | null = null
-  private lastWindowInfo: { app: string; title: string; since: Date } | null = null
+  private lastWindowInfo: {
+    app: string
+    title: string
+    since: Date
+    recordId: string | null
+  } | null = null
   private appUsage: Record<string, number> = {}
+  private idle: IdleInterval | null = null
+  private idleIntervals: IdleInterval[] = []
+  private pauseIntervals: PauseInterval[] = []
+  private taskIntervals: TaskInterval[] = []
+  private ocrIndex: OcrIndex
+  private ocrWorker: OcrWorker | null = null
+  private triggerMonitor: CaptureTriggerMonitor | null = null
+  private capturing = false
+  private lastCaptureAt = 0
+  // きっかけによる撮影の時刻（直近1時間分）
+  private eventCaptureTimes: number[] = []
+  private storageStatus: StorageStatus | null = null
+  private storageCheck: Promise<StorageStatus | null> | null = null
+  private storageRecheck: Promise<StorageStatus | null> | null = null
+  private displayList: CaptureDisplayList | null = null
+  private pauseReason: PauseReason | null = null
+  // ジャーナルに未記録の使用時間（撮影・一時停止・離席・停止の時にまとめて記録）
+  private pendingUsage = new Map<string, { app: string; recordId: string | null; seconds: number }>()
+  private lastStorageCheckAt = 0
+  // 離席判定前に加算した直近の使用時間（離席と判明したら取り消す）
+  private recentUsage: Array<{ app: string; recordId: string | null; from: number; to: number }> = []
 
   // デフォルトで除外するアプリ
   private defaultExcludedApps = [
@@ -77,81 +247,387 @@ export class Recorder {
     if (!fs.existsSync(thumbnailsDir)) {
       fs.mkdirSync(thumbnailsDir, { recursive: true })
     }
+
+    this.journal = new SessionJournal(this.options.dataDir, this.options.store ?? null)
+    this.ocrIndex = new OcrIndex(this.options.dataDir, this.options.store ?? null)
   }
 
   async start(): Promise<void> {
     // 動的インポート
     const screenshotModule = await import('screenshot-desktop')
-    screenshotFn = screenshotModule.default || screenshotModule
-    const activeWinModule = await import('active-win')
-    activeWinFn = activeWinModule.default
+    const screenshotLib = screenshotModule.default || screenshotModule
+    screenshotFn = screenshotLib
+    this.displayList?.stop()
+    this.displayList = new CaptureDisplayList(screenshotLib.listDisplays ?? null)
+    this.displayList.start()
+    if (this.options.trackActiveWindow) {
+      try {
+        const activeWinModule = await import('active-win')
+        activeWinFn = activeWinModule.default
+      } catch (error) {
+        console.error('active-win unavailable:', error)
+        activeWinFn = null
+      }
+    }
 
     this.recording = true
     this.paused = false
-    this.startTime = new Date()
-    this.screenshots = []
-    this.appUsage = {}
+    this.pauseReason = null
+
+    // 前回の未送信セッションがあればジャーナルから復元
+    const restored = this.journal.restore()
+    if (restored) {
+      this.sessionId = restored.sessionId
+      this.startTime = restored.startTime
+      this.screenshots = restored.screenshots
+      this.appUsage = restored.appUsage
+      this.idleIntervals = restored.idleIntervals
+      this.pauseIntervals = restored.pauseIntervals
+      this.taskIntervals = restored.taskIntervals
+      if (restored.paused && restored.pauseReason === 'user') {
+        // 利用者が一時停止していた場合は再起動後も一時停止のまま（区間は開いたままにする）
+        const open = this.pauseIntervals[this.pauseIntervals.length - 1]
+        if (open) {
+          open.end = null
+        }
+        this.paused = true
+        this.pauseReason = 'user'
+        console.log('Restored session is paused')
+      } else if (restored.paused) {
+        // 記録時間外による一時停止は再開し、スケジュールの判定に任せる
+        this.journal.append({ type: 'resume', at: new Date().toISOString() })
+      }
+      console.log(`Session restored: ${this.screenshots.length} screenshots`)
+    } else {
+      this.sessionId = crypto.randomUUID()
+      this.startTime = new Date()
+      this.screenshots = []
+      this.appUsage = {}
+      this.idleIntervals = []
+      this.pauseIntervals = []
+      this.taskIntervals = []
+      this.journal.append({
+        type: 'start',
+        at: this.startTime.toISOString(),
+        sessionId: this.sessionId,
+      })
+    }
+
+    // 文字認識が終わっていない記録（前回終了時に処理中だったもの）を再開
+    for (const record of this.screenshots) {
+      if (!this.ocrIndex.has(record.id)) {
+        this.queueOcr(record)
+      }
+    }
 
     console.log('Recording started')
+    void this.checkStorage()
+    this.startIdleMonitor()
     this.scheduleCapture()
+    this.syncTriggerMonitor()
   }
 
   stop(): void {
+    this.stopIdleMonitor()
+    this.stopTriggerMonitor()
+    this.displayList?.stop()
+    // 最後のウィンドウの使用時間を記録
+    this.updateWindowDuration()
+    this.flushUsage()
+    this.exitIdle(new Date())
+    this.closePauseInterval(new Date())
+    if (this.getCurrentTask()) {
+      this.setTask(null)
+    }
+    this.lastWindowInfo = null
+
     this.recording = false
     if (this.timer) {
       clearTimeout(this.timer)
       this.timer = null
     }
-
-    // 最後のウィンドウの使用時間を記録
-    this.updateWindowDuration()
+    this.journal.append({ type: 'stop', at: new Date().toISOString() })
 
     console.log('Recording stopped')
   }
 
-  pause(): void {
-    this.paused = true
+  /**
+   * 送信完了後にセッションを閉じる（次回起動時に復元しない）
+   */
+  endSession(): void {
+    this.stop()
+    this.journal.close()
+    this.sessionId = null
+    this.screenshots = []
+    this.appUsage = {}
+    this.idleIntervals = []
+    this.pauseIntervals = []
+    this.taskIntervals = []
+    this.ocrWorker?.cancelAll()
+    this.ocrIndex.clear()
+    console.log('Session ended')
+  }
+
+  pause(reason: PauseReason = 'user'): void {
     this.updateWindowDuration()
-    console.log('Recording paused')
+    this.flushUsage()
+    this.exitIdle(new Date())
+    if (!this.paused) {
+      this.pauseIntervals.push({ start: new Date().toISOString(), end: null })
+    }
+    this.paused = true
+    this.pauseReason = reason
+    this.lastWindowInfo = null
+    this.journal.append({ type: 'pause', at: new Date().toISOString(), reason })
+    this.syncTriggerMonitor()
+    console.log(`Recording paused (${reason})`)
   }
 
   resume(): void {
+    this.closePauseInterval(new Date())
     this.paused = false
+    this.pauseReason = null
     this.lastWindowInfo = null
+    this.journal.append({ type: 'resume', at: new Date().toISOString() })
+    this.syncTriggerMonitor()
     console.log('Recording resumed')
   }
 
+  private closePauseInterval(at: Date): void {
+    const open = this.pauseIntervals.find((i) => i.end === null)
+    if (open) {
+      open.end = at.toISOString()
+    }
+  }
+
+  /**
+   * 現在の作業のタグを付け替える（nullで作業の終了）
+   */
+  setTask(label: string | null): void {
+    const now = new Date()
+    this.closeTaskInterval(now)
+    if (label) {
+      this.taskIntervals.push({ label, start: now.toISOString(), end: null })
+    }
+    this.journal.append({ type: 'task', at: now.toISOString(), label })
+    console.log(label ? 'Task started' : 'Task cleared')
+  }
+
+  getCurrentTask(): string | null {
+    return this.taskIntervals.find((i) => i.end === null)?.label ?? null
+  }
+
+  private closeTaskInterval(at: Date): void {
+    const open = this.taskIntervals.find((i) => i.end === null)
+    if (open) {
+      open.end = at.toISOString()
+    }
+  }
+
+  /**
+   * 記録ポリシーの変更を反映（撮影間隔は次回の撮影から適用）
+   */
+  updateOptions(options: RecorderPolicyOptions): void {
+    this.options = {
+      ...this.options,
+      ...options,
+      excludedApps: options.excludedApps || this.defaultExcludedApps,
+    }
+    this.ocrWorker?.setLanguages(this.options.ocrLanguages ?? DEFAULT_OCR_LANGUAGES)
+    this.stopTriggerMonitor()
+    this.syncTriggerMonitor()
+    console.log('Recorder options updated')
+  }
+
   isRecording(): boolean {
     return this.recording && !this.paused
   }
 
-  private scheduleCapture(): void {
+  /**
+   * 一時停止中ならその理由（記録中はnull）
+   */
+  getPauseReason(): PauseReason | null {
+    return this.paused ? this.pauseReason : null
+  }
+
+  private scheduleCapture(delayMs: number = this.options.intervalMs): void {
     if (!this.recording) return
 
     this.timer = setTimeout(async () => {
-      if (!this.paused) {
-        await this.capture()
+      // 一時停止中・離席中は撮影しない
+      if (!this.paused && !this.idle) {
+        // きっかけによる撮影の最中なら、終わるのを待って撮り直す（定期撮影を飛ばさない）
+        if (!(await this.capture())) {
+          this.scheduleCapture(CAPTURE_BUSY_RETRY_MS)
+          return
+        }
       }
       this.scheduleCapture()
-    }, this.options.intervalMs)
+    }, delayMs)
+  }
+
+  /**
+   * きっかけの監視は記録中（一時停止中・離席中を除く）だけ動かす
+   */
+  private syncTriggerMonitor(): void {
+    const active = this.recording && !this.paused && !this.idle
+    if (active && !this.triggerMonitor) {
+      this.startTriggerMonitor()
+    } else if (!active && this.triggerMonitor) {
+      this.stopTriggerMonitor()
+    }
+  }
+
+  /**
+   * 定期撮影以外のきっかけ（ウィンドウの切り替えなど）の監視を開始
+   */
+  private startTriggerMonitor(): void {
+    const canTrackWindow = !!this.options.trackActiveWindow && activeWinFn !== null
+    this.triggerMonitor = new CaptureTriggerMonitor(
+      async () => {
+        if (!activeWinFn) return null
+        const window = await activeWinFn({
+          accessibilityPermission: this.options.hasAccessibilityPermission?.() ?? true,
+          screenRecordingPermission: true,
+        })
+        return window ? { app: window.owner.name, title: window.title } : null
+      },
+      (trigger) => {
+        void this.captureOnTrigger(trigger)
+      },
+      {
+        window: canTrackWindow && this.options.captureOnWindowChange !== false,
+        clipboard: this.options.captureOnClipboard === true,
+        input: this.options.captureOnInputBurst === true,
+      }
+    )
+    this.triggerMonitor.start()
+  }
+
+  private stopTriggerMonitor(): void {
+    this.triggerMonitor?.stop()
+    this.triggerMonitor = null
+  }
+
+  /**
+   * きっかけによる撮影（最小間隔・1時間あたりの上限を超える場合は撮影しない）
+   */
+  private async captureOnTrigger(trigger: CaptureTrigger): Promise<void> {
+    if (!this.recording || this.paused || this.idle) return
+
+    const now = Date.now()
+    const minGapSeconds =
+      this.options.eventCaptureMinGapSeconds ?? DEFAULT_EVENT_CAPTURE_MIN_GAP_SECONDS
+    if (now - this.lastCaptureAt < minGapSeconds * 1000) return
+
+    const maxPerHour = this.options.eventCaptureMaxPerHour ?? DEFAULT_EVENT_CAPTURE_MAX_PER_HOUR
+    this.eventCaptureTimes = this.eventCaptureTimes.filter((t) => t > now - 60 * 60 * 1000)
+    if (this.eventCaptureTimes.length >= maxPerHour) return
+
+    this.eventCaptureTimes.push(now)
+    if (!(await this.capture(trigger))) {
+      // 別の撮影の最中で撮影しなかった場合は上限に数えない
+      this.eventCaptureTimes = this.eventCaptureTimes.filter((t) => t !== now)
+    }
+  }
+
+  private onLockScreen = () => this.enterIdle('lock', new Date())
+  private onSuspend = () => this.enterIdle('suspend', new Date())
+  private onWake = () => {
+    this.exitIdle(new Date())
+    this.syncTriggerMonitor()
+  }
+
+  private startIdleMonitor(): void {
+    this.idleTimer = setInterval(() => this.checkIdle(), IDLE_CHECK_INTERVAL_MS)
+    powerMonitor.on('lock-screen', this.onLockScreen)
+    powerMonitor.on('suspend', this.onSuspend)
+    powerMonitor.on('unlock-screen', this.onWake)
+    powerMonitor.on('resume', this.onWake)
+  }
+
+  private stopIdleMonitor(): void {
+    if (this.idleTimer) {
+      clearInterval(this.idleTimer)
+      this.idleTimer = null
+    }
+    powerMonitor.off('lock-screen', this.onLockScreen)
+    powerMonitor.off('suspend', this.onSuspend)
+    powerMonitor.off('unlock-screen', this.onWake)
+    powerMonitor.off('resume', this.onWake)
+  }
+
+  /**
+   * システムの無操作時間から離席の開始・終了を判定
+   */
+  private checkIdle(): void {
+    if (!this.recording || this.paused) return
+
+    const threshold = this.options.idleThresholdSeconds ?? DEFAULT_IDLE_THRESHOLD_SECONDS
+    const idleSeconds = powerMonitor.getSystemIdleTime()
+    const lastInput = new Date(Date.now() - idleSeconds * 1000)
+
+    if (!this.idle && idleSeconds >= threshold) {
+      this.enterIdle('idle', lastInput)
+    } else if (this.idle?.reason === 'idle' && idleSeconds < threshold) {
+      // 画面ロック・スリープによる離席は解除イベントでのみ終了する
+      this.exitIdle(lastInput)
+      this.syncTriggerMonitor()
+    }
+  }
+
+  private enterIdle(reason: IdleInterval['reason'], at: Date): void {
+    if (!this.recording || this.paused || this.idle) return
+
+    this.updateWindowDuration()
+    this.revertUsageAfter(at.getTime())
+    this.flushUsage()
+
+    this.idle = { start: at.toISOString(), end: null, reason }
+    this.idleIntervals.push(this.idle)
+    this.journal.append({ type: 'idle-start', at: this.idle.start, reason })
+    this.syncTriggerMonitor()
+    console.log(`Idle started (${reason})`)
+  }
+
+  private exitIdle(at: Date): void {
+    if (!this.idle) return
+
+    this.idle.end = at.toISOString()
+    this.idle = null
+    if (this.lastWindowInfo) {
+      this.lastWindowInfo.since = at
+    }
+    this.journal.append({ type: 'idle-end', at: at.toISOString() })
+    console.log('Idle ended')
   }
 
-  private async capture(): Promise<void> {
+  /**
+   * 撮影（別の撮影の最中で何もしなかった場合はfalse）
+   */
+  private async capture(trigger: CaptureTrigger = 'timer'): Promise<boolean> {
+    // 定期撮影ときっかけによる撮影が重なった場合は後から来た方を飛ばす
+    if (this.capturing) return false
+    this.capturing = true
+    this.lastCaptureAt = Date.now()
+
     try {
       // アクティブウィンドウを取得（失敗しても続行）
       let appName = 'Unknown'
       let windowTitle = ''
+      let windowBounds: { x: number; y: number; width: number; height: number } | null = null
 
-      // active-winは権限ダイアログが頻繁に出るため、一旦無効化
-      // 権限が付与されている環境では有効化可能
-      const USE_ACTIVE_WIN = false
-      
-      if (USE_ACTIVE_WIN) {
+      if (this.options.trackActiveWindow && activeWinFn) {
         try {
-          const window = await activeWinFn()
+          // アクセシビリティ権限がない場合はactive-win側の権限ダイアログを出さない
+          const window = await activeWinFn({
+            accessibilityPermission: this.options.hasAccessibilityPermission?.() ?? true,
+            screenRecordingPermission: true,
+          })
           if (window) {
             appName = window.owner.name
             windowTitle = window.title
+            windowBounds = window.bounds
           }
         } catch (activeWinError) {
           // active-winの権限エラーは無視して続行
@@ -159,62 +635,257 @@ export class Recorder {
         }
       }
 
+      // ウィンドウ使用時間を更新（ここまでの時間は直前の撮影に加算）
+      this.updateWindowDuration()
+      this.flushUsage()
+
       // 除外アプリチェック（アプリ名が取得できた場合のみ）
+      // 除外アプリの使用時間・ウィンドウの切り替えは記録しない
       if (appName !== 'Unknown' && this.isExcludedApp(appName)) {
+        this.lastWindowInfo = null
         console.log('Excluded app:', appName)
-        return
+        return true
       }
 
-      // ウィンドウ使用時間を更新
-      if (appName !== 'Unknown') {
-        this.updateWindowDuration()
-        this.lastWindowInfo = {
+      const changed =
+        !this.lastWindowInfo ||
+        this.lastWindowInfo.app !== appName ||
+        this.lastWindowInfo.title !== windowTitle
+      this.lastWindowInfo = {
+        app: appName,
+        title: windowTitle,
+        since: new Date(),
+        recordId: null,
+      }
+      if (changed) {
+        this.journal.append({
+          type: 'window',
+          at: this.lastWindowInfo.since.toISOString(),
           app: appName,
           title: windowTitle,
-          since: new Date(),
-        }
+        })
       }
 
-      // スクリーンショットを撮影
+      // スクリーンショットを撮影（複数ディスプレイの場合は1枚ずつ記録）
       const timestamp = new Date()
-      const id = crypto.randomUUID()
-      const filename = `${timestamp.toISOString().replace(/[:.]/g, '-')}.jpg`
-      const filePath = path.join(this.options.dataDir, 'screenshots', filename)
-      const thumbnailPath = path.join(this.options.dataDir, 'thumbnails', filename)
-
-      const imgBuffer = await screenshotFn({ format: 'jpg' })
+      const baseName = timestamp.toISOString().replace(/[:.]/g, '-')
+      const targets = await this.resolveCaptureTargets(windowBounds)
 
-      // フルサイズを保存
-      fs.writeFileSync(filePath, imgBuffer)
+      for (const [index, target] of targets.entries()) {
+        const filename = targets.length > 1 ? `${baseName}_${index + 1}.jpg` : `${baseName}.jpg`
+        const { record, duplicate } = await this.captureDisplay(
+          target,
+          filename,
+          timestamp,
+          appName,
+          windowTitle,
+          trigger
+        )
+        if (!duplicate) {
+          this.queueOcr(record)
+        }
 
-      // サムネイルを320px幅にリサイズして保存
-      try {
-        const img = nativeImage.createFromBuffer(imgBuffer)
-        const size = img.getSize()
-        const thumbWidth = 320
-        const thumbHeight = Math.round(size.height * (thumbWidth / size.width))
-        const thumbnail = img.resize({ width: thumbWidth, height: thumbHeight, quality: 'good' })
-        fs.writeFileSync(thumbnailPath, thumbnail.toJPEG(60))
-      } catch {
-        // リサイズ失敗時はフルサイズをコピー
-        fs.writeFileSync(thumbnailPath, imgBuffer)
+        // 次の撮影までの使用時間はアクティブウィンドウのある画面の記録に紐づける
+        if (this.lastWindowInfo && (target.active || this.lastWindowInfo.recordId === null)) {
+          this.lastWindowInfo.recordId = record.id
+        }
       }
-
-      // 記録を追加
-      const record: ScreenshotRecord = {
-        id,
-        timestamp: timestamp.toISOString(),
-        appName,
-        windowTitle,
-        filePath,
-        thumbnailPath,
-        durationSeconds: 0,
+      // 容量の確認は撮影を待たせない
+      if (Date.now() - this.lastStorageCheckAt >= STORAGE_CHECK_INTERVAL_MS) {
+        void this.checkStorage()
       }
-
-      this.screenshots.push(record)
-      console.log(`Captured: ${appName} - ${windowTitle}`)
+      console.log(`Captured (${trigger}): ${appName} - ${windowTitle} (${targets.length} display)`)
     } catch (error) {
       console.error('Capture error:', error)
+    } finally {
+      this.capturing = false
+    }
+    return true
+  }
+
+  /**
+   * 撮影モードに応じて撮影対象のディスプレイを決める
+   */
+  private async resolveCaptureTargets(
+    windowBounds: { x: number; y: number; width: number; height: number } | null
+  ): Promise<CaptureTarget[]> {
+    const primaryId = screen.getPrimaryDisplay().id
+    const windowDisplayId = windowBounds ? screen.getDisplayMatching(windowBounds).id : null
+    const primary: CaptureTarget[] = [
+      {
+        name: 'primary',
+        active: true,
+        windowOnDisplay: windowDisplayId === null ? null : windowDisplayId === primaryId,
+      },
+    ]
+    const mode = this.options.captureMode ?? 'primary'
+    if (mode === 'primary' || !this.displayList) return primary
+
+    const displays = await this.displayList.list()
+    if (displays.length === 0) return primary
+
+    // アクティブウィンドウのあるディスプレイ（位置・解像度で対応付け、不明ならメイン）
+    let activeIndex = displays.findIndex((d) => d.electronId === (windowDisplayId ?? primaryId))
+    if (activeIndex === -1) {
+      activeIndex = Math.max(0, displays.findIndex((d) => d.electronId === primaryId))
+    }
+
+    const targets = displays.map((d, index) => ({
+      id: d.id,
+      name: d.name,
+      active: index === activeIndex,
+      windowOnDisplay:
+        windowDisplayId === null || d.electronId === null ? null : d.electronId === windowDisplayId,
+    }))
+    return mode === 'all' ? targets : [targets[activeIndex]]
+  }
+
+  /**
+   * 1画面分を撮影して保存・記録
+   * 直前の同じ画面とほぼ同じ場合は保存せず、直前の記録を返す（使用時間はその記録に加算される）
+   */
+  private async captureDisplay(
+    target: CaptureTarget,
+    filename: string,
+    timestamp: Date,
+    appName: string,
+    windowTitle: string,
+    trigger: CaptureTrigger
+  ): Promise<{ record: ScreenshotRecord; duplicate: boolean }> {
+    const id = crypto.randomUUID()
+    const thumbnailPath = path.join(this.options.dataDir, 'thumbnails', filename)
+
+    const captured = await screenshotFn({ format: 'jpg', screen: target.id })
+
+    // 保存前にマスキングを適用（失敗時は保存しない）
+    const { image: redacted, log: redactions } = applyRedactions(
+      captured,
+      this.options.redactionRules ?? [],
+      { appName, windowTitle, windowOnDisplay: target.windowOnDisplay },
+      this.options.jpegQuality
+    )
+
+    // 縮小・グレースケール・品質指定を適用（マスキング済みの画像は指定品質でエンコード済み）
+    const encodeOptions = this.getImageEncodeOptions()
+    const imgBuffer = prepareImage(redacted, encodeOptions, redactions.length > 0)
+
+    const displayId = target.id === undefined ? 'primary' : String(target.id)
+    const frameHash =
+      this.options.skipDuplicateFrames === false ? null : computeFrameHash(imgBuffer)
+    const previous = frameHash
+      ? this.findDuplicateFrame(displayId, frameHash, appName, windowTitle)
+      : null
+    if (previous) {
+      previous.repeatCount = (previous.repeatCount ?? 0) + 1
+      this.journal.append({ type: 'repeat', at: timestamp.toISOString(), id: previous.id })
+      return { record: previous, duplicate: true }
+    }
+
+    // フルサイズ（保存形式でエンコード）とサムネイルを保存
+    const encoded = await encodeImage(imgBuffer, encodeOptions)
+    const filePath = path.join(
+      this.options.dataDir,
+      'screenshots',
+      encoded.format === 'webp' ? filename.replace(/\.jpg$/, '.webp') : filename
+    )
+    this.writeFile(filePath, encoded.data)
+    this.writeThumbnail(imgBuffer, thumbnailPath)
+
+    // 記録を追加
+    const record: ScreenshotRecord = {
+      id,
+      timestamp: timestamp.toISOString(),
+      appName,
+      windowTitle,
+      filePath,
+      thumbnailPath,
+      durationSeconds: 0,
+      displayId,
+      redactions,
+      task: this.getCurrentTask(),
+      frameHash,
+      repeatCount: 0,
+      trigger,
+    }
+
+    this.screenshots.push(record)
+    this.journal.append({ type: 'capture', at: record.timestamp, record })
+    return { record, duplicate: false }
+  }
+
+  /**
+   * 同じ画面の直前の記録が、同じウィンドウでほぼ同じ画像ならその記録を返す
+   */
+  private findDuplicateFrame(
+    displayId: string,
+    frameHash: string,
+    appName: string,
+    windowTitle: string
+  ): ScreenshotRecord | null {
+    const previous = [...this.screenshots].reverse().find((s) => s.displayId === displayId)
+    if (!previous?.frameHash) return null
+    if (previous.appName !== appName || previous.windowTitle !== windowTitle) return null
+
+    const maxDistance = this.options.duplicateFrameDistance ?? DEFAULT_DUPLICATE_FRAME_DISTANCE
+    return frameHashDistance(previous.frameHash, frameHash) <= maxDistance ? previous : null
+  }
+
+  /**
+   * 文字認識の待ちに追加（無効・非対応のOSでは何もしない）
+   */
+  private queueOcr(record: ScreenshotRecord): void {
+    if (!this.options.ocrEnabled) return
+
+    if (!this.ocrWorker) {
+      const engine = getPlatformOcrEngine()
+      if (!engine) return
+      this.ocrWorker = new OcrWorker(
+        engine,
+        this.ocrIndex,
+        this.options.store ?? null,
+        this.options.ocrLanguages ?? DEFAULT_OCR_LANGUAGES
+      )
+    }
+    this.ocrWorker.enqueue({ id: record.id, filePath: record.filePath })
+  }
+
+  /**
+   * サムネイルを指定幅（既定320px）にリサイズして保存
+   */
+  private writeThumbnail(imgBuffer: Buffer, thumbnailPath: string): void {
+    try {
+      const img = nativeImage.createFromBuffer(imgBuffer)
+      const size = img.getSize()
+      const thumbWidth = this.options.thumbnailWidth ?? 320
+      const thumbHeight = Math.round(size.height * (thumbWidth / size.width))
+      const thumbnail = img.resize({ width: thumbWidth, height: thumbHeight, quality: 'good' })
+      this.writeFile(
+        thumbnailPath,
+        thumbnail.toJPEG(this.options.thumbnailQuality ?? DEFAULT_THUMBNAIL_QUALITY)
+      )
+    } catch {
+      // リサイズ失敗時はフルサイズをコピー
+      this.writeFile(thumbnailPath, imgBuffer)
+    }
+  }
+
+  private getImageEncodeOptions(): ImageEncodeOptions {
+    const format = this.options.imageFormat ?? 'jpeg'
+    return {
+      maxWidth: this.options.maxImageWidth,
+      maxHeight: this.options.maxImageHeight,
+      grayscale: this.options.grayscale,
+      format,
+      quality: format === 'webp' ? this.options.webpQuality : this.options.jpegQuality,
+    }
+  }
+
+  // 暗号化が有効なら暗号化して保存
+  private writeFile(filePath: string, data: Buffer): void {
+    if (this.options.store) {
+      this.options.store.writeFile(filePath, data)
+    } else {
+      fs.writeFileSync(filePath, data)
     }
   }
 
@@ -225,29 +896,93 @@ export class Recorder {
   }
 
   private updateWindowDuration(): void {
-    if (!this.lastWindowInfo) return
+    if (!this.lastWindowInfo || this.idle || this.paused) return
 
     const now = new Date()
-    const durationSeconds = Math.floor(
-      (now.getTime() - this.lastWindowInfo.since.getTime()) / 1000
-    )
+    const from = this.lastWindowInfo.since.getTime()
+    const durationSeconds = Math.floor((now.getTime() - from) / 1000)
 
-    // アプリ使用時間を加算
-    const app = this.lastWindowInfo.app
-    this.appUsage[app] = (this.appUsage[app] || 0) + durationSeconds
+    if (durationSeconds <= 0) return
+
+    // アプリ使用時間を加算（加算済みの区間を二重に数えないよう起点を進める）
+    const { app, recordId } = this.lastWindowInfo
+    const to = from + durationSeconds * 1000
+    this.addUsage(app, recordId, durationSeconds)
+    this.lastWindowInfo.since = new Date(to)
+
+    // 離席判定までの猶予分だけ保持
+    const threshold = this.options.idleThresholdSeconds ?? DEFAULT_IDLE_THRESHOLD_SECONDS
+    const keepFrom = now.getTime() - threshold * 1000 - IDLE_CHECK_INTERVAL_MS * 2
+    this.recentUsage = this.recentUsage.filter((u) => u.to > keepFrom)
+    this.recentUsage.push({ app, recordId, from, to })
+  }
+
+  /**
+   * 離席開始時刻以降に加算済みの使用時間を取り消す
+   */
+  private revertUsageAfter(at: number): void {
+    for (const usage of this.recentUsage) {
+      if (usage.to <= at) continue
+      const seconds = Math.round((usage.to - Math.max(usage.from, at)) / 1000)
+      usage.to = Math.max(usage.from, at)
+      if (seconds > 0) {
+        this.addUsage(usage.app, usage.recordId, -seconds)
+      }
+    }
+  }
+
+  private addUsage(app: string, recordId: string | null, seconds: number): void {
+    // アプリ名が取得できない時間は記録の表示時間にのみ加算する
+    if (app !== 'Unknown') {
+      this.appUsage[app] = Math.max(0, (this.appUsage[app] || 0) + seconds)
+    }
+
+    const record = recordId ? this.screenshots.find((s) => s.id === recordId) : undefined
+    if (record) {
+      record.durationSeconds = Math.max(0, record.durationSeconds + seconds)
+    }
+
+    const key = `${app}\n${recordId ?? ''}`
+    const pending = this.pendingUsage.get(key)
+    if (pending) {
+      pending.seconds += seconds
+    } else {
+      this.pendingUsage.set(key, { app, recordId, seconds })
+    }
+  }
+
+  // 未記録の使用時間をジャーナルに書き込む（統計の取得のたびには書かない）
+  private flushUsage(): void {
+    const at = new Date().toISOString()
+    for (const { app, recordId, seconds } of this.pendingUsage.values()) {
+      if (seconds !== 0) {
+        this.journal.append({ type: 'usage', at, app, seconds, recordId })
+      }
+    }
+    this.pendingUsage.clear()
   }
 
   getStats(): RecordingStats {
     this.updateWindowDuration()
 
     const totalActiveSeconds = Object.values(this.appUsage).reduce((a, b) => a + b, 0)
+    const totalIdleSeconds = this.idleIntervals.reduce((sum, interval) => {
+      const end = interval.end ? new Date(interval.end).getTime() : Date.now()
+      return sum + Math.max(0, Math.floor((end - new Date(interval.start).getTime()) / 1000))
+    }, 0)
+
+    const duplicateFrames = this.screenshots.reduce((sum, s) => sum + (s.repeatCount ?? 0), 0)
+    const totalFrames = this.screenshots.length + duplicateFrames
 
     return {
       startTime: this.startTime?.toISOString() || '',
       endTime: this.recording ? null : new Date().toISOString(),
       totalScreenshots: this.screenshots.length,
       totalActiveSeconds,
+      totalIdleSeconds,
       appSummary: { ...this.appUsage },
+      duplicateFrames,
+      dedupRatio: totalFrames > 0 ? duplicateFrames / totalFrames : 0,
     }
   }
 
@@ -257,6 +992,62 @@ export class Recorder {
     }))
   }
 
+  /**
+   * スクリーンショットまたはサムネイルの画像を読み込む（見つからなければnull）
+   * 暗号化されている場合は復号して返す
+   */
+  readImage(id: string, kind: 'screenshot' | 'thumbnail'): Buffer | null {
+    const record = this.screenshots.find((s) => s.id === id)
+    if (!record) return null
+
+    const filePath = kind === 'screenshot' ? record.filePath : record.thumbnailPath
+    if (!fs.existsSync(filePath)) return null
+    return this.options.store ? this.options.store.readFile(filePath) : fs.readFileSync(filePath)
+  }
+
+  /**
+   * 利用者が指定した範囲を黒塗りして上書き保存（サムネイルも作り直す）
+   * regions は画像に対する割合（0〜1）
+   */
+  async redactScreenshot(
+    id: string,
+    regions: Array<{ x: number; y: number; width: number; height: number }>
+  ): Promise<boolean> {
+    const record = this.screenshots.find((s) => s.id === id)
+    const stored = this.readImage(id, 'screenshot')
+    if (!record || !stored || regions.length === 0) return false
+
+    // WebP で保存した画像はJPEGにしてから黒塗りし、WebP に戻す
+    const image = await decodeToJpeg(stored)
+    if (!image) return false
+
+    const rules: RedactionRule[] = regions.map((region) => ({
+      name: 'manual',
+      action: 'black',
+      region,
+    }))
+    const { image: redacted, log } = applyRedactions(
+      image,
+      rules,
+      { appName: record.appName, windowTitle: record.windowTitle, windowOnDisplay: true },
+      this.options.jpegQuality
+    )
+
+    const saved =
+      detectImageFormat(stored) === 'webp'
+        ? (await encodeImage(redacted, { format: 'webp', quality: this.options.webpQuality })).data
+        : redacted
+    this.writeFile(record.filePath, saved)
+    this.writeThumbnail(redacted, record.thumbnailPath)
+
+    record.redactions = [...(record.redactions ?? []), ...log]
+    // 黒塗り前の文字を索引に残さないよう、消してから認識し直す
+    this.ocrIndex.remove(id)
+    this.queueOcr(record)
+    this.journal.append({ type: 'redact', at: new Date().toISOString(), id, redactions: log })
+    return true
+  }
+
   deleteScreenshot(id: string): boolean {
     const index = this.screenshots.findIndex((s) => s.id === id)
     if (index === -1) return false
@@ -276,17 +1067,131 @@ export class Recorder {
     }
 
     this.screenshots.splice(index, 1)
+    this.ocrWorker?.cancel(id)
+    this.ocrIndex.remove(id)
+    this.journal.append({ type: 'delete', at: new Date().toISOString(), id })
     return true
   }
 
+  /**
+   * 保存容量を確認し、上限を超えていれば送信済みの画像を縮小・削除する
+   * 送信が成功した後にも呼び出し、警告の状態を更新する
+   */
+  checkStorage(): Promise<StorageStatus | null> {
+    // 確認中に呼ばれた場合は、終わってからもう一度だけ確認する（送信後の状態を反映するため）
+    if (this.storageCheck) {
+      this.storageRecheck ??= this.storageCheck.then(() => {
+        this.storageRecheck = null
+        return this.checkStorage()
+      })
+      return this.storageRecheck
+    }
+    this.storageCheck = this.runStorageCheck().finally(() => {
+      this.storageCheck = null
+    })
+    return this.storageCheck
+  }
+
+  private async runStorageCheck(): Promise<StorageStatus | null> {
+    this.lastStorageCheckAt = Date.now()
+    const budgetMb = this.options.storageBudgetMb
+    if (!budgetMb || budgetMb <= 0) {
+      this.storageStatus = null
+      return null
+    }
+
+    const wasExceeded = this.storageStatus?.exceeded ?? false
+    try {
+      this.storageStatus = await enforceStorageBudget(
+        this.options.dataDir,
+        budgetMb * 1024 * 1024,
+        this.options.store ?? null
+      )
+    } catch (error) {
+      console.error('Storage budget check error:', error)
+      return this.storageStatus
+    }
+    if (this.storageStatus.exceeded && !wasExceeded) {
+      console.log('Storage budget exceeded before upload')
+      this.options.onStorageBudgetExceeded?.({ ...this.storageStatus })
+    }
+    return { ...this.storageStatus }
+  }
+
+  /**
+   * 直近の容量の確認結果（上限が未設定ならnull）
+   */
+  getStorageStatus(): StorageStatus | null {
+    return this.storageStatus ? { ...this.storageStatus } : null
+  }
+
+  /**
+   * 送信済みのセッションと現在のセッション（ローカルの分析表示用）
+   */
+  getSessionHistory(): RestoredSession[] {
+    this.updateWindowDuration()
+
+    const sessions = this.journal.readArchivedSessions()
+    if (this.sessionId && this.startTime) {
+      sessions.push({
+        sessionId: this.sessionId,
+        startTime: this.startTime,
+        screenshots: this.getScreenshots(),
+        appUsage: { ...this.appUsage },
+        idleIntervals: this.idleIntervals.map((i) => ({ ...i })),
+        pauseIntervals: this.pauseIntervals.map((i) => ({ ...i })),
+        taskIntervals: this.taskIntervals.map((i) => ({ ...i })),
+        paused: this.paused,
+        pauseReason: this.getPauseReason(),
+      })
+    }
+    return sessions
+  }
+
+  /**
+   * 現在のセッションの記録を、認識した文字で検索
+   */
+  searchText(query: string): OcrSearchResult[] {
+    return this.ocrIndex.search(query, this.screenshots.map((s) => s.id))
+  }
+
+  /**
+   * 文字認識の状態（有効か・認識待ちの枚数）
+   */
+  getOcrStatus(): { enabled: boolean; pending: number } {
+    return {
+      enabled: !!this.options.ocrEnabled && getPlatformOcrEngine() !== null,
+      pending: this.ocrWorker?.pendingCount() ?? 0,
+    }
+  }
+
   exportData(): {
+    sessionId: string | null
     stats: RecordingStats
     screenshots: ScreenshotRecord[]
+    idleIntervals: IdleInterval[]
+    pauseIntervals: PauseInterval[]
+    taskIntervals: TaskInterval[]
+    // 記録IDごとの認識した文字（認識済みのもののみ）
+    ocrText: Record<string, string>
     dataDir: string
   } {
+    const ocrText: Record<string, string> = {}
+    for (const s of this.screenshots) {
+      const text = this.ocrIndex.get(s.id)
+      if (text !== null) {
+        ocrText[s.id] = text
+      }
+    }
+
     return {
+      sessionId: this.sessionId,
       stats: this.getStats(),
       screenshots: this.screenshots,
+      idleIntervals: this.idleIntervals.map((i) => ({ ...i })),
+      pauseIntervals: this.pauseIntervals.map((i) => ({ ...i })),
+      taskIntervals: this.taskIntervals.map((i) => ({ ...i })),
+      ocrText,
       dataDir: this.options.dataDir,
     }
   }
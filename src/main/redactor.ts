@@ -0,0 +1,196 @@
+import { nativeImage } from 'electron'
+
+/**
+ * マスキングルール
+ * app / title_pattern を指定した場合は一致したときだけ適用（両方指定時は両方一致が条件）
+ * アプリ・ウィンドウが判定できない場合は、一致したものとみなして画面全体に適用する
+ * region を省略した場合は画面全体に適用
+ */
+export interface RedactionRule {
+  name: string
+  action: 'blur' | 'black'
+  app?: string // アプリ名（部分一致・大文字小文字を区別しない）
+  title_pattern?: string // ウィンドウタイトルの正規表現（不正な場合は一致したものとみなす）
+  region?: { x: number; y: number; width: number; height: number } // 画面に対する割合（0〜1）
+}
+
+/**
+ * 適用したマスキングの記録（metadata.json に出力）
+ */
+export interface RedactionLogEntry {
+  rule: string
+  action: RedactionRule['action']
+  region: { x: number; y: number; width: number; height: number } // ピクセル
+  // unknown_window=アプリ・ウィンドウが判定できないため画面全体に適用した
+  // invalid_pattern=title_pattern が正規表現として不正なため、一致したものとみなして適用した
+  reason?: 'unknown_window' | 'invalid_pattern'
+  // title_pattern の解析エラー
+  error?: string
+}
+
+interface RedactionContext {
+  // 取得できなかった場合は 'Unknown'
+  appName: string
+  windowTitle: string
+  // アクティブウィンドウがこの画面にあるか（アプリ・タイトル条件はこの画面のみに適用、不明ならnull）
+  windowOnDisplay: boolean | null
+}
+
+// アプリ・ウィンドウが判定できない（条件付きのルールは画面全体に適用する）
+function isUnknownWindow(context: RedactionContext): boolean {
+  return context.appName === 'Unknown'
+}
+
+// ぼかし（モザイク）のブロックサイズ
+const BLUR_BLOCK_SIZE = 24
+const REDACTED_JPEG_QUALITY = 85
+
+// title_pattern の解析エラー（正しい正規表現ならnull）
+function titlePatternError(rule: RedactionRule): string | null {
+  if (!rule.title_pattern) return null
+  try {
+    new RegExp(rule.title_pattern, 'i')
+    return null
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error)
+  }
+}
+
+function matchesRule(rule: RedactionRule, context: RedactionContext): boolean {
+  const hasCondition = Boolean(rule.app || rule.title_pattern)
+  if (!hasCondition) return true
+  if (isUnknownWindow(context)) return true
+  // ウィンドウが別の画面にあると分かっている場合のみ除外（不明ならこの画面にも適用）
+  if (context.windowOnDisplay === false) return false
+
+  if (rule.app && !context.appName.toLowerCase().includes(rule.app.toLowerCase())) {
+    return false
+  }
+  // 不正な正規表現は一致したものとみなす（マスキングが外れないように）
+  if (rule.title_pattern && !titlePatternError(rule)) {
+    if (!new RegExp(rule.title_pattern, 'i').test(context.windowTitle)) return false
+  }
+  return true
+}
+
+function toPixelRegion(
+  rule: RedactionRule,
+  width: number,
+  height: number
+): RedactionLogEntry['region'] {
+  if (!rule.region) {
+    return { x: 0, y: 0, width, height }
+  }
+
+  const clamp = (v: number) => Math.min(1, Math.max(0, v))
+  const x = Math.round(clamp(rule.region.x) * width)
+  const y = Math.round(clamp(rule.region.y) * height)
+  return {
+    x,
+    y,
+    width: Math.min(width - x, Math.round(clamp(rule.region.width) * width)),
+    height: Math.min(height - y, Math.round(clamp(rule.region.height) * height)),
+  }
+}
+
+/**
+ * BGRAビットマップの指定範囲を塗りつぶし、またはモザイク化
+ */
+function redactBitmap(
+  bitmap: Buffer,
+  imageWidth: number,
+  region: RedactionLogEntry['region'],
+  action: RedactionRule['action']
+): void {
+  const right = region.x + region.width
+  const bottom = region.y + region.height
+
+  if (action === 'black') {
+    for (let y = region.y; y < bottom; y++) {
+      for (let x = region.x; x < right; x++) {
+        const i = (y * imageWidth + x) * 4
+        bitmap[i] = 0
+        bitmap[i + 1] = 0
+        bitmap[i + 2] = 0
+        bitmap[i + 3] = 255
+      }
+    }
+    return
+  }
+
+  for (let by = region.y; by < bottom; by += BLUR_BLOCK_SIZE) {
+    for (let bx = region.x; bx < right; bx += BLUR_BLOCK_SIZE) {
+      const blockRight = Math.min(bx + BLUR_BLOCK_SIZE, right)
+      const blockBottom = Math.min(by + BLUR_BLOCK_SIZE, bottom)
+      const sum = [0, 0, 0]
+      let count = 0
+
+      for (let y = by; y < blockBottom; y++) {
+        for (let x = bx; x < blockRight; x++) {
+          const i = (y * imageWidth + x) * 4
+          sum[0] += bitmap[i]
+          sum[1] += bitmap[i + 1]
+          sum[2] += bitmap[i + 2]
+          count++
+        }
+      }
+
+      for (let y = by; y < blockBottom; y++) {
+        for (let x = bx; x < blockRight; x++) {
+          const i = (y * imageWidth + x) * 4
+          bitmap[i] = Math.round(sum[0] / count)
+          bitmap[i + 1] = Math.round(sum[1] / count)
+          bitmap[i + 2] = Math.round(sum[2] / count)
+        }
+      }
+    }
+  }
+}
+
+/**
+ * スクリーンショットにマスキングルールを適用
+ * 適用するルールがない場合は元の画像をそのまま返す
+ */
+export function applyRedactions(
+  image: Buffer,
+  rules: RedactionRule[],
+  context: RedactionContext,
+  jpegQuality = REDACTED_JPEG_QUALITY
+): { image: Buffer; log: RedactionLogEntry[] } {
+  const matched = rules.filter((rule) => matchesRule(rule, context))
+  if (matched.length === 0) {
+    return { image, log: [] }
+  }
+
+  const img = nativeImage.createFromBuffer(image)
+  const { width, height } = img.getSize()
+  if (width === 0 || height === 0) {
+    throw new Error('Failed to decode screenshot for redaction')
+  }
+  const bitmap = img.toBitmap()
+
+  const log: RedactionLogEntry[] = []
+  for (const rule of matched) {
+    const unknownWindow = Boolean(rule.app || rule.title_pattern) && isUnknownWindow(context)
+    const region = unknownWindow
+      ? { x: 0, y: 0, width, height }
+      : toPixelRegion(rule, width, height)
+    if (region.width <= 0 || region.height <= 0) continue
+    redactBitmap(bitmap, width, region, rule.action)
+    const entry: RedactionLogEntry = { rule: rule.name, action: rule.action, region }
+    const patternError = titlePatternError(rule)
+    if (patternError) {
+      console.error(`Invalid redaction pattern (${rule.name}): ${patternError}`)
+      entry.reason = 'invalid_pattern'
+      entry.error = patternError
+    }
+    if (unknownWindow) {
+      console.log(`Window unknown: applied redaction rule to whole frame (${rule.name})`)
+      entry.reason = 'unknown_window'
+    }
+    log.push(entry)
+  }
+
+  const redacted = nativeImage.createFromBitmap(bitmap, { width, height })
+  return { image: redacted.toJPEG(jpegQuality), log }
+}
@@ -0,0 +1,123 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import * as crypto from 'crypto'
+
+/**
+ * 端末内のデータの保管期間と削除
+ * 削除するファイルは乱数で上書きしてから消す
+ * （SSDやコピーオンライトのファイルシステムでは元の領域が残る場合があるため、保存時の暗号化と併用する）
+ */
+
+/**
+ * 削除のきっかけ（管理者への削除報告に含める）
+ * upload=送信の確認後 / retention=保管期間の経過 / study_end=調査終了 / user=利用者の操作
+ */
+export type PurgeReason = 'upload' | 'retention' | 'study_end' | 'user'
+
+export interface PurgeResult {
+  files: number
+  bytes: number
+}
+
+// 上書きの単位
+const OVERWRITE_CHUNK_BYTES = 1024 * 1024
+// 全削除でも残すファイル（送信順の番号と受領済みファイルのハッシュ、削除の報告の送信待ちのみ。
+// 画面の内容は含まない）
+const PRESERVED_FILES = ['upload-ledger.json', 'purge-receipts.json']
+
+/**
+ * ファイルを乱数で上書きしてから削除し、削除したバイト数を返す
+ */
+export function secureDeleteFile(filePath: string): number {
+  const size = fs.statSync(filePath).size
+  const fd = fs.openSync(filePath, 'r+')
+  try {
+    const chunk = Buffer.alloc(Math.min(size, OVERWRITE_CHUNK_BYTES))
+    for (let offset = 0; offset < size; offset += chunk.length) {
+      crypto.randomFillSync(chunk)
+      fs.writeSync(fd, chunk, 0, Math.min(chunk.length, size - offset), offset)
+    }
+    fs.fsyncSync(fd)
+  } finally {
+    fs.closeSync(fd)
+  }
+  fs.unlinkSync(filePath)
+  return size
+}
+
+/**
+ * 送信済みの画像（uploaded フォルダ）と保管済みのジャーナルを削除
+ * olderThan を指定した場合はそれより前に更新されたファイルのみ
+ */
+export function purgeUploadedData(
+  dataDir: string,
+  options: { olderThan?: Date; includeJournals: boolean }
+): PurgeResult {
+  const result: PurgeResult = { files: 0, bytes: 0 }
+  const dirs = [
+    path.join(dataDir, 'uploaded', 'screenshots'),
+    path.join(dataDir, 'uploaded', 'thumbnails'),
+  ]
+  if (options.includeJournals) {
+    dirs.push(path.join(dataDir, 'journals'))
+  }
+
+  for (const dir of dirs) {
+    purgeFiles(dir, result, options.olderThan)
+  }
+  if (result.files > 0) {
+    console.log(`Purged ${result.files} uploaded files (${result.bytes} bytes)`)
+  }
+  return result
+}
+
+/**
+ * 端末内のデータ（画像・サムネイル・ジャーナル・送信待ちのバッチ・文字認識の索引）をすべて削除
+ * 記録を続けられるよう、フォルダ自体は残す
+ */
+export function purgeAllLocalData(dataDir: string): PurgeResult {
+  const result: PurgeResult = { files: 0, bytes: 0 }
+  if (!fs.existsSync(dataDir)) return result
+
+  for (const entry of fs.readdirSync(dataDir, { withFileTypes: true })) {
+    const entryPath = path.join(dataDir, entry.name)
+    if (entry.isDirectory()) {
+      purgeFiles(entryPath, result)
+    } else if (entry.isFile() && !PRESERVED_FILES.includes(entry.name)) {
+      deleteInto(entryPath, result)
+    }
+  }
+  console.log(`Purged all local data: ${result.files} files (${result.bytes} bytes)`)
+  return result
+}
+
+// フォルダ内のファイルを削除（サブフォルダは空になれば削除し、指定したフォルダ自体は残す）
+function purgeFiles(dir: string, result: PurgeResult, olderThan?: Date): void {
+  if (!fs.existsSync(dir)) return
+
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const entryPath = path.join(dir, entry.name)
+    if (entry.isDirectory()) {
+      purgeFiles(entryPath, result, olderThan)
+      try {
+        if (fs.readdirSync(entryPath).length === 0) {
+          fs.rmdirSync(entryPath)
+        }
+      } catch (error) {
+        console.error('Failed to remove folder:', error)
+      }
+    } else if (entry.isFile()) {
+      if (olderThan && fs.statSync(entryPath).mtime >= olderThan) continue
+      deleteInto(entryPath, result)
+    }
+  }
+}
+
+function deleteInto(filePath: string, result: PurgeResult): void {
+  try {
+    result.bytes += secureDeleteFile(filePath)
+    result.files++
+  } catch (error) {
+    console.error('Failed to purge file:', error)
+  }
+}
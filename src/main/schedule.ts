@@ -0,0 +1,99 @@
+import { Config, Weekday, WorkingHours, resolveRecordingPolicy } from './config'
+
+/**
+ * 記録スケジュールの状態
+ * waiting: 調査開始日前 / outside: 記録時間外（休日を含む） / active: 記録時間内
+ */
+export type ScheduleState =
+  | { status: 'active' }
+  | { status: 'waiting'; until: string }
+  | { status: 'outside'; until: string | null }
+
+const WEEKDAYS: Weekday[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat']
+// 次回の記録開始を探す日数
+const LOOKAHEAD_DAYS = 14
+
+function toDateKey(date: Date): string {
+  const y = date.getFullYear()
+  const m = (date.getMonth() + 1).toString().padStart(2, '0')
+  const d = date.getDate().toString().padStart(2, '0')
+  return `${y}-${m}-${d}`
+}
+
+// "HH:MM" を指定日のDateに変換
+function atTime(day: Date, hhmm: string): Date {
+  const [hours, minutes] = hhmm.split(':').map((v) => parseInt(v, 10))
+  const date = new Date(day)
+  date.setHours(hours || 0, minutes || 0, 0, 0)
+  return date
+}
+
+/**
+ * 調査開始日・終了日の日時
+ * 日付のみ（"2026-11-01"）は new Date では UTC の0時になるため、端末の時刻の0時として読む
+ */
+export function parseScheduleDate(value: string): Date {
+  const dateOnly = value.match(/^(\d{4})-(\d{2})-(\d{2})$/)
+  if (dateOnly) {
+    return new Date(Number(dateOnly[1]), Number(dateOnly[2]) - 1, Number(dateOnly[3]))
+  }
+  return new Date(value)
+}
+
+// 指定日に始まる記録時間帯（休日は空）
+// 終了が開始以前の時間帯（"22:00"-"06:00" など）は翌日の終了時刻まで
+function getWindows(workingHours: WorkingHours, day: Date): Array<{ start: Date; end: Date }> {
+  if (workingHours.holidays?.includes(toDateKey(day))) return []
+
+  const windows = workingHours.days[WEEKDAYS[day.getDay()]] || []
+  return windows
+    .map((w) => {
+      const start = atTime(day, w.start)
+      const end = atTime(day, w.end)
+      if (end <= start) end.setDate(end.getDate() + 1)
+      return { start, end }
+    })
+    .filter((w) => w.start < w.end)
+}
+
+// now 以降で最初に始まる記録時間帯の開始時刻
+function findNextStart(workingHours: WorkingHours, now: Date): Date | null {
+  for (let offset = 0; offset <= LOOKAHEAD_DAYS; offset++) {
+    const day = new Date(now.getFullYear(), now.getMonth(), now.getDate() + offset)
+    const next = getWindows(workingHours, day)
+      .map((w) => w.start)
+      .filter((start) => start > now)
+      .sort((a, b) => a.getTime() - b.getTime())[0]
+    if (next) return next
+  }
+  return null
+}
+
+/**
+ * 調査開始日と記録時間帯から、現在記録すべきかを判定
+ */
+export function getScheduleState(config: Config, now: Date = new Date()): ScheduleState {
+  if (config.recording_start_date) {
+    const startDate = parseScheduleDate(config.recording_start_date)
+    if (now < startDate) {
+      return { status: 'waiting', until: startDate.toISOString() }
+    }
+  }
+
+  const workingHours = resolveRecordingPolicy(config).working_hours
+  if (!workingHours) {
+    return { status: 'active' }
+  }
+
+  // 前日に始まって日付をまたぐ時間帯も含める
+  const yesterday = new Date(now.getFullYear(), now.getMonth(), now.getDate() - 1)
+  const inWindow = [...getWindows(workingHours, yesterday), ...getWindows(workingHours, now)].some(
+    (w) => w.start <= now && now < w.end
+  )
+  if (inWindow) {
+    return { status: 'active' }
+  }
+
+  const nextStart = findNextStart(workingHours, now)
+  return { status: 'outside', until: nextStart ? nextStart.toISOString() : null }
+}
@@ -0,0 +1,155 @@
+import * as fs from 'fs'
+import * as crypto from 'crypto'
+import { Transform, Writable } from 'stream'
+import { pipeline } from 'stream/promises'
+import { safeStorage } from 'electron'
+import { createEncryptedFileStream } from './encrypted-stream'
+
+// 暗号化ファイルの形式: MAGIC(4) + IV(12) + 認証タグ(16) + 暗号文（AES-256-GCM）
+const MAGIC = Buffer.from('ACR1')
+const IV_LENGTH = 12
+const TAG_LENGTH = 16
+const HEADER_LENGTH = MAGIC.length + IV_LENGTH + TAG_LENGTH
+// ジャーナルの暗号化行の接頭辞
+const LINE_PREFIX = 'enc:'
+
+/**
+ * ローカル保存データの暗号化
+ * データ鍵はOSのキーチェーン（safeStorage）で保護してファイルに保存する
+ * 鍵が使えない場合は平文のまま読み書きする（暗号化済みファイルの読み込みは常に復号を試みる）
+ */
+export class SecureStore {
+  private key: Buffer | null
+  // 新規に書き込むデータを暗号化するか（無効でも既存データの復号はできる）
+  private enabled: boolean
+
+  private constructor(key: Buffer | null, enabled: boolean) {
+    this.key = key
+    this.enabled = enabled && key !== null
+  }
+
+  /**
+   * データ鍵を読み込み、なければ作成
+   * enabled=false の場合も既存の鍵は読み込む（暗号化済みファイルを復号するため）
+   */
+  static open(keyPath: string, enabled: boolean): SecureStore {
+    if (!safeStorage.isEncryptionAvailable()) {
+      console.log('safeStorage unavailable: local data is stored unencrypted')
+      return new SecureStore(null, false)
+    }
+
+    try {
+      if (fs.existsSync(keyPath)) {
+        const key = Buffer.from(safeStorage.decryptString(fs.readFileSync(keyPath)), 'base64')
+        return new SecureStore(key, enabled)
+      }
+      if (!enabled) {
+        return new SecureStore(null, false)
+      }
+
+      const key = crypto.randomBytes(32)
+      fs.writeFileSync(keyPath, safeStorage.encryptString(key.toString('base64')))
+      console.log('Data key created')
+      return new SecureStore(key, true)
+    } catch (error) {
+      console.error('Data key error:', error)
+      return new SecureStore(null, false)
+    }
+  }
+
+  isEnabled(): boolean {
+    return this.enabled
+  }
+
+  static isEncrypted(data: Buffer): boolean {
+    return data.length >= HEADER_LENGTH && data.subarray(0, MAGIC.length).equals(MAGIC)
+  }
+
+  encrypt(data: Buffer): Buffer {
+    if (!this.enabled || !this.key) return data
+
+    const iv = crypto.randomBytes(IV_LENGTH)
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.key, iv)
+    const encrypted = Buffer.concat([cipher.update(data), cipher.final()])
+    return Buffer.concat([MAGIC, iv, cipher.getAuthTag(), encrypted])
+  }
+
+  decrypt(data: Buffer): Buffer {
+    if (!SecureStore.isEncrypted(data)) return data
+    if (!this.key) {
+      throw new Error('Data key unavailable: cannot decrypt local data')
+    }
+
+    const iv = data.subarray(MAGIC.length, MAGIC.length + IV_LENGTH)
+    const tag = data.subarray(MAGIC.length + IV_LENGTH, HEADER_LENGTH)
+    const decipher = crypto.createDecipheriv('aes-256-gcm', this.key, iv)
+    decipher.setAuthTag(tag)
+    return Buffer.concat([decipher.update(data.subarray(HEADER_LENGTH)), decipher.final()])
+  }
+
+  writeFile(filePath: string, data: Buffer): void {
+    fs.writeFileSync(filePath, this.encrypt(data))
+  }
+
+  readFile(filePath: string): Buffer {
+    return this.decrypt(fs.readFileSync(filePath))
+  }
+
+  /**
+   * 書き込んだ内容を暗号化して保存するストリーム（無効時は平文のまま保存）
+   */
+  createWriteStream(filePath: string): Writable {
+    if (!this.enabled || !this.key) {
+      return fs.createWriteStream(filePath, { mode: 0o600 })
+    }
+
+    const iv = crypto.randomBytes(IV_LENGTH)
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.key, iv)
+    // 認証タグの位置は書き終えてから埋める
+    const header = Buffer.concat([MAGIC, iv, Buffer.alloc(TAG_LENGTH)])
+    return createEncryptedFileStream(filePath, header, MAGIC.length + IV_LENGTH, cipher)
+  }
+
+  /**
+   * 暗号化済みファイルを少しずつ復号して別のパスに書き出す（平文ならnull）
+   * 大きなファイル（送信するZIP）向け。認証に失敗した場合は書き出したファイルを削除する
+   */
+  async streamDecryptedFileTo(filePath: string, outputPath: string): Promise<string | null> {
+    const header = Buffer.alloc(HEADER_LENGTH)
+    const fd = fs.openSync(filePath, 'r')
+    try {
+      const bytesRead = fs.readSync(fd, header, 0, HEADER_LENGTH, 0)
+      if (!SecureStore.isEncrypted(header.subarray(0, bytesRead))) return null
+    } finally {
+      fs.closeSync(fd)
+    }
+    if (!this.key) {
+      throw new Error('Data key unavailable: cannot decrypt local data')
+    }
+
+    const iv = header.subarray(MAGIC.length, MAGIC.length + IV_LENGTH)
+    const decipher = crypto.createDecipheriv('aes-256-gcm', this.key, iv)
+    decipher.setAuthTag(header.subarray(MAGIC.length + IV_LENGTH, HEADER_LENGTH))
+    try {
+      await pipeline(
+        fs.createReadStream(filePath, { start: HEADER_LENGTH }),
+        decipher as Transform,
+        fs.createWriteStream(outputPath, { mode: 0o600 })
+      )
+    } catch (error) {
+      fs.rmSync(outputPath, { force: true })
+      throw error
+    }
+    return outputPath
+  }
+
+  encryptLine(text: string): string {
+    if (!this.enabled) return text
+    return LINE_PREFIX + this.encrypt(Buffer.from(text, 'utf8')).toString('base64')
+  }
+
+  decryptLine(line: string): string {
+    if (!line.startsWith(LINE_PREFIX)) return line
+    return this.decrypt(Buffer.from(line.slice(LINE_PREFIX.length), 'base64')).toString('utf8')
+  }
+}
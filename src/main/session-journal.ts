@@ -0,0 +1,265 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import type {
+  IdleInterval,
+  PauseInterval,
+  PauseReason,
+  ScreenshotRecord,
+  TaskInterval,
+} from './recorder'
+import type { RedactionLogEntry } from './redactor'
+import type { SecureStore } from './secure-store'
+
+/**
+ * ジャーナルに記録するイベント（1行1イベントのJSON）
+ */
+export type JournalEntry =
+  | { type: 'start'; at: string; sessionId: string }
+  | { type: 'capture'; at: string; record: ScreenshotRecord }
+  | { type: 'delete'; at: string; id: string }
+  | { type: 'repeat'; at: string; id: string }
+  | { type: 'redact'; at: string; id: string; redactions: RedactionLogEntry[] }
+  | { type: 'pause'; at: string; reason?: PauseReason }
+  | { type: 'resume'; at: string }
+  | { type: 'window'; at: string; app: string; title: string }
+  | { type: 'usage'; at: string; app: string; seconds: number; recordId?: string | null }
+  | { type: 'idle-start'; at: string; reason: IdleInterval['reason'] }
+  | { type: 'idle-end'; at: string }
+  | { type: 'task'; at: string; label: string | null }
+  | { type: 'stop'; at: string }
+  | { type: 'end'; at: string }
+
+/**
+ * ジャーナルから復元したセッション
+ */
+export interface RestoredSession {
+  sessionId: string
+  startTime: Date
+  screenshots: ScreenshotRecord[]
+  appUsage: Record<string, number>
+  idleIntervals: IdleInterval[]
+  pauseIntervals: PauseInterval[]
+  taskIntervals: TaskInterval[]
+  paused: boolean
+  // 一時停止中の場合、その理由（理由のない古いジャーナルは利用者の操作とみなす）
+  pauseReason: PauseReason | null
+}
+
+/**
+ * ジャーナルのイベントを再生してセッションを組み立てる（最後の start 以降。end で終了済み）
+ */
+function replaySession(entries: JournalEntry[]): RestoredSession | null {
+  let session: RestoredSession | null = null
+  let lastAt: string | null = null
+
+  for (const entry of entries) {
+    lastAt = entry.at
+    if (entry.type === 'start') {
+      session = {
+        sessionId: entry.sessionId,
+        startTime: new Date(entry.at),
+        screenshots: [],
+        appUsage: {},
+        idleIntervals: [],
+        pauseIntervals: [],
+        taskIntervals: [],
+        paused: false,
+        pauseReason: null,
+      }
+      continue
+    }
+    if (!session) continue
+
+    switch (entry.type) {
+      case 'capture':
+        session.screenshots.push(entry.record)
+        break
+      case 'repeat': {
+        const record = session.screenshots.find((s) => s.id === entry.id)
+        if (record) {
+          record.repeatCount = (record.repeatCount ?? 0) + 1
+        }
+        break
+      }
+      case 'delete':
+        session.screenshots = session.screenshots.filter((s) => s.id !== entry.id)
+        break
+      case 'redact': {
+        const record = session.screenshots.find((s) => s.id === entry.id)
+        if (record) {
+          record.redactions = [...(record.redactions ?? []), ...entry.redactions]
+        }
+        break
+      }
+      case 'pause':
+        if (!session.paused) {
+          session.pauseIntervals.push({ start: entry.at, end: null })
+        }
+        session.paused = true
+        session.pauseReason = entry.reason ?? 'user'
+        break
+      case 'resume': {
+        const open = session.pauseIntervals.find((i) => i.end === null)
+        if (open) {
+          open.end = entry.at
+        }
+        session.paused = false
+        session.pauseReason = null
+        break
+      }
+      case 'usage': {
+        if (entry.app !== 'Unknown') {
+          session.appUsage[entry.app] = Math.max(
+            0,
+            (session.appUsage[entry.app] || 0) + entry.seconds
+          )
+        }
+        const record = session.screenshots.find((s) => s.id === entry.recordId)
+        if (record) {
+          record.durationSeconds = Math.max(0, record.durationSeconds + entry.seconds)
+        }
+        break
+      }
+      case 'idle-start':
+        session.idleIntervals.push({ start: entry.at, end: null, reason: entry.reason })
+        break
+      case 'idle-end': {
+        const open = session.idleIntervals.find((i) => i.end === null)
+        if (open) {
+          open.end = entry.at
+        }
+        break
+      }
+      case 'task': {
+        const open = session.taskIntervals.find((i) => i.end === null)
+        if (open) {
+          open.end = entry.at
+        }
+        if (entry.label) {
+          session.taskIntervals.push({ label: entry.label, start: entry.at, end: null })
+        }
+        break
+      }
+      case 'end':
+        session = null
+        break
+    }
+  }
+
+  if (!session) return null
+
+  // クラッシュ時に開いたままの離席・一時停止・作業の区間は最後の記録時刻で閉じる
+  for (const interval of [
+    ...session.idleIntervals,
+    ...session.pauseIntervals,
+    ...session.taskIntervals,
+  ]) {
+    if (interval.end === null) {
+      interval.end = lastAt
+    }
+  }
+  return session
+}
+
+/**
+ * 追記専用のセッションジャーナル
+ * クラッシュや強制再起動でもメタデータを失わないよう、イベントごとにfsyncする
+ */
+export class SessionJournal {
+  private filePath: string
+  private archiveDir: string
+  private store: SecureStore | null
+
+  constructor(dataDir: string, store: SecureStore | null = null) {
+    this.filePath = path.join(dataDir, 'session.jsonl')
+    this.archiveDir = path.join(dataDir, 'journals')
+    this.store = store
+  }
+
+  /**
+   * イベントを1件追記
+   */
+  append(entry: JournalEntry): void {
+    try {
+      const fd = fs.openSync(this.filePath, 'a')
+      try {
+        const line = JSON.stringify(entry)
+        fs.writeSync(fd, (this.store ? this.store.encryptLine(line) : line) + '\n')
+        fs.fsyncSync(fd)
+      } finally {
+        fs.closeSync(fd)
+      }
+    } catch (error) {
+      // ジャーナル書き込み失敗で撮影を止めない
+      console.error('Journal write error:', error)
+    }
+  }
+
+  /**
+   * 未完了のセッションがあれば復元（なければnull）
+   */
+  restore(): RestoredSession | null {
+    if (!fs.existsSync(this.filePath)) return null
+
+    const session = replaySession(this.readEntries(this.filePath))
+    if (!session) return null
+
+    // ファイルが残っている記録のみ復元
+    session.screenshots = session.screenshots.filter((s) => fs.existsSync(s.filePath))
+    return session
+  }
+
+  /**
+   * 保管済み（送信済み）のセッションを古い順に読み込む（ローカルの分析表示用）
+   */
+  readArchivedSessions(): RestoredSession[] {
+    if (!fs.existsSync(this.archiveDir)) return []
+
+    const sessions: RestoredSession[] = []
+    for (const name of fs.readdirSync(this.archiveDir).sort()) {
+      if (!name.endsWith('.jsonl')) continue
+      const entries = this.readEntries(path.join(this.archiveDir, name))
+      // 保管時の end は無視して内容を読む
+      const session = replaySession(entries.filter((e) => e.type !== 'end'))
+      if (session) {
+        sessions.push(session)
+      }
+    }
+    return sessions
+  }
+
+  /**
+   * セッション完了（送信済み）としてジャーナルを保管フォルダへ移動
+   */
+  close(): void {
+    this.append({ type: 'end', at: new Date().toISOString() })
+
+    try {
+      if (!fs.existsSync(this.archiveDir)) {
+        fs.mkdirSync(this.archiveDir, { recursive: true })
+      }
+      const archiveName = `${new Date().toISOString().replace(/[:.]/g, '-')}.jsonl`
+      fs.renameSync(this.filePath, path.join(this.archiveDir, archiveName))
+    } catch (error) {
+      console.error('Journal archive error:', error)
+    }
+  }
+
+  private readEntries(filePath: string): JournalEntry[] {
+    const entries: JournalEntry[] = []
+    const content = fs.readFileSync(filePath, 'utf8')
+
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue
+      try {
+        const text = this.store ? this.store.decryptLine(line) : line
+        entries.push(JSON.parse(text) as JournalEntry)
+      } catch {
+        // クラッシュ時の書きかけ行・復号できない行は無視
+        console.log('Skipping unreadable journal line')
+      }
+    }
+
+    return entries
+  }
+}
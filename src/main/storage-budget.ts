@@ -0,0 +1,162 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import { nativeImage } from 'electron'
+import { secureDeleteFile } from './retention'
+import type { SecureStore } from './secure-store'
+
+/**
+ * 保存容量の上限
+ * 上限を超えたら、送信済み（uploaded フォルダ）の画像を古い順に縮小し、それでも足りなければ削除する
+ * 未送信の画像・送信待ちのバッチは消さない（上限を超えたままなら警告する）
+ */
+
+export interface StorageStatus {
+  // データフォルダ全体の使用量
+  usedBytes: number
+  // 上限（未設定ならnull）
+  budgetBytes: number | null
+  // 送信済みの画像を減らしても上限を超えている
+  exceeded: boolean
+  // 今回の確認で縮小・削除したファイル数
+  downsized: number
+  evicted: number
+}
+
+// 縮小後の幅と品質（これより小さい画像は縮小しない）
+const DOWNSIZED_WIDTH = 960
+const DOWNSIZED_JPEG_QUALITY = 50
+// 一度に処理するファイル数（撮影・画面の操作を止めないよう、この数ごとに処理を譲る）
+const FILES_PER_TICK = 10
+
+// 他の処理（撮影・IPC）に順番を譲る
+function yieldToEventLoop(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve))
+}
+
+/**
+ * 使用量を確認し、上限を超えていれば送信済みの画像を縮小・削除する
+ * ファイルは非同期に読み書きし、数件ごとに処理を譲る（撮影の処理からは待たずに呼ぶ）
+ */
+export async function enforceStorageBudget(
+  dataDir: string,
+  budgetBytes: number,
+  store: SecureStore | null = null
+): Promise<StorageStatus> {
+  let usedBytes = await directorySize(dataDir)
+  const status: StorageStatus = {
+    usedBytes,
+    budgetBytes,
+    exceeded: false,
+    downsized: 0,
+    evicted: 0,
+  }
+  if (usedBytes <= budgetBytes) return status
+
+  const uploadedScreenshots = await listOldestFirst(path.join(dataDir, 'uploaded', 'screenshots'))
+  const uploadedThumbnails = await listOldestFirst(path.join(dataDir, 'uploaded', 'thumbnails'))
+
+  // 1. 送信済みのスクリーンショットを古い順に縮小
+  for (const [index, filePath] of uploadedScreenshots.entries()) {
+    if (usedBytes <= budgetBytes) break
+    if (index > 0 && index % FILES_PER_TICK === 0) await yieldToEventLoop()
+    const saved = await downsizeFile(filePath, store)
+    if (saved > 0) {
+      usedBytes -= saved
+      status.downsized++
+    }
+  }
+
+  // 2. 送信済みのスクリーンショット、サムネイルの順に古いものから削除（上書きしてから削除）
+  for (const [index, filePath] of [...uploadedScreenshots, ...uploadedThumbnails].entries()) {
+    if (usedBytes <= budgetBytes) break
+    if (index > 0 && index % FILES_PER_TICK === 0) await yieldToEventLoop()
+    try {
+      usedBytes -= secureDeleteFile(filePath)
+      status.evicted++
+    } catch (error) {
+      console.error('Failed to evict uploaded file:', error)
+    }
+  }
+
+  status.usedBytes = usedBytes
+  status.exceeded = usedBytes > budgetBytes
+  if (status.downsized > 0 || status.evicted > 0) {
+    console.log(
+      `Storage budget: downsized ${status.downsized}, evicted ${status.evicted} uploaded files`
+    )
+  }
+  return status
+}
+
+/**
+ * フォルダ内のファイルサイズの合計（サブフォルダを含む）
+ */
+export async function directorySize(dir: string): Promise<number> {
+  let entries: fs.Dirent[]
+  try {
+    entries = await fs.promises.readdir(dir, { withFileTypes: true })
+  } catch {
+    return 0
+  }
+
+  let total = 0
+  for (const entry of entries) {
+    const entryPath = path.join(dir, entry.name)
+    try {
+      if (entry.isDirectory()) {
+        total += await directorySize(entryPath)
+      } else if (entry.isFile()) {
+        total += (await fs.promises.stat(entryPath)).size
+      }
+    } catch {
+      // 確認中に消えたファイルは数えない
+    }
+  }
+  return total
+}
+
+async function listOldestFirst(dir: string): Promise<string[]> {
+  let names: string[]
+  try {
+    names = await fs.promises.readdir(dir)
+  } catch {
+    return []
+  }
+
+  const files: Array<{ filePath: string; mtimeMs: number }> = []
+  for (const name of names) {
+    const filePath = path.join(dir, name)
+    try {
+      const stat = await fs.promises.stat(filePath)
+      if (stat.isFile()) files.push({ filePath, mtimeMs: stat.mtimeMs })
+    } catch {
+      // 確認中に消えたファイルは除く
+    }
+  }
+  return files.sort((a, b) => a.mtimeMs - b.mtimeMs).map((f) => f.filePath)
+}
+
+// 縮小して置き換え、減ったバイト数を返す（縮小済み・読み込めない画像は0）
+// 書き込み中に中断しても元の画像が残るよう、別名で書いてから改名する
+async function downsizeFile(filePath: string, store: SecureStore | null): Promise<number> {
+  const tmpFile = `${filePath}.tmp`
+  try {
+    const raw = await fs.promises.readFile(filePath)
+    const data = store ? store.decrypt(raw) : raw
+    // WebP は nativeImage で読めないため縮小せず、削除の対象にする
+    const img = nativeImage.createFromBuffer(data)
+    if (img.isEmpty() || img.getSize().width <= DOWNSIZED_WIDTH) return 0
+
+    const downsized = img
+      .resize({ width: DOWNSIZED_WIDTH, quality: 'good' })
+      .toJPEG(DOWNSIZED_JPEG_QUALITY)
+    const output = store ? store.encrypt(downsized) : downsized
+    await fs.promises.writeFile(tmpFile, output)
+    await fs.promises.rename(tmpFile, filePath)
+    return Math.max(0, raw.length - output.length)
+  } catch (error) {
+    console.error('Failed to downsize uploaded file:', error)
+    await fs.promises.rm(tmpFile, { force: true }).catch(() => {})
+    return 0
+  }
+}
@@ -1,8 +1,26 @@
 declare module 'screenshot-desktop' {
   interface ScreenshotOptions {
     format?: 'jpg' | 'png'
-    screen?: number
+    screen?: number | string
+  }
+  interface Display {
+    id: number | string
+    name: string
+    primary?: boolean
+    // win32
+    top?: number
+    left?: number
+    right?: number
+    bottom?: number
+    // linux
+    width?: number
+    height?: number
+    offsetX?: number
+    offsetY?: number
   }
   function screenshot(options?: ScreenshotOptions): Promise<Buffer>
+  namespace screenshot {
+    function listDisplays(): Promise<Display[]>
+  }
   export = screenshot
 }
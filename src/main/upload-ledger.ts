@@ -0,0 +1,136 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import * as crypto from 'crypto'
+import type { SecureStore } from './secure-store'
+
+/**
+ * 送信先が受領したファイル（内容のSHA-256で管理）
+ */
+export interface LedgerFile {
+  name: string
+  batchId: string
+}
+
+/**
+ * バッチで初めて送るファイル（ZIP内の名前）
+ */
+export interface ContentFile {
+  sha256: string
+  name: string
+}
+
+interface LedgerData {
+  lastSequence: number
+  // 受領済みのバッチ（送信順）
+  batches: Array<{ id: string; sequence: number; acknowledgedAt: string }>
+  files: Record<string, LedgerFile>
+}
+
+/**
+ * 画像の内容ハッシュ（暗号化されている場合は復号後の内容）
+ */
+export function hashContent(filePath: string, store: SecureStore | null): string {
+  const data = store ? store.readFile(filePath) : fs.readFileSync(filePath)
+  return crypto.createHash('sha256').update(data).digest('hex')
+}
+
+/**
+ * 送信台帳
+ * 送信先が受領したファイルのハッシュを記録し、次のバッチには未送信のファイルだけを入れる
+ * 各バッチには累積インデックスを同梱し、受信側はバッチを順に重ねれば調査全体を復元できる
+ */
+export class UploadLedger {
+  private filePath: string
+  private data: LedgerData
+
+  constructor(dataDir: string) {
+    this.filePath = path.join(dataDir, 'upload-ledger.json')
+    this.data = this.load()
+  }
+
+  /**
+   * 受領済みならファイルの情報を返す
+   */
+  find(sha256: string): LedgerFile | null {
+    return this.data.files[sha256] ?? null
+  }
+
+  /**
+   * 次のバッチ番号を払い出す（送信に失敗しても番号は再利用しない）
+   */
+  nextSequence(): number {
+    this.data.lastSequence++
+    this.save()
+    return this.data.lastSequence
+  }
+
+  /**
+   * 累積インデックス（受領済みのバッチ・ファイルに、送信待ちのバッチと今回のバッチを加えたもの）
+   */
+  buildIndex(
+    batch: { id: string; sequence: number; newFiles: ContentFile[] },
+    pending: Array<{ id: string; sequence?: number; newFiles?: ContentFile[] }>
+  ): object {
+    const files: Record<string, { name: string; batch_id: string }> = {}
+    for (const [sha256, file] of Object.entries(this.data.files)) {
+      files[sha256] = { name: file.name, batch_id: file.batchId }
+    }
+
+    const batches: Array<{ id: string; sequence: number; acknowledged: boolean }> =
+      this.data.batches.map((b) => ({ id: b.id, sequence: b.sequence, acknowledged: true }))
+    for (const p of [...pending, batch]) {
+      if (p.sequence === undefined) continue
+      batches.push({ id: p.id, sequence: p.sequence, acknowledged: false })
+      for (const file of p.newFiles ?? []) {
+        files[file.sha256] ??= { name: file.name, batch_id: p.id }
+      }
+    }
+
+    return {
+      batch_id: batch.id,
+      sequence: batch.sequence,
+      batches: batches.sort((a, b) => a.sequence - b.sequence),
+      files,
+    }
+  }
+
+  /**
+   * 送信先がバッチを受領したことを記録
+   */
+  acknowledge(
+    batch: { id: string; sequence: number },
+    newFiles: ContentFile[]
+  ): void {
+    if (this.data.batches.some((b) => b.id === batch.id)) return
+
+    this.data.batches.push({
+      id: batch.id,
+      sequence: batch.sequence,
+      acknowledgedAt: new Date().toISOString(),
+    })
+    this.data.batches.sort((a, b) => a.sequence - b.sequence)
+    for (const file of newFiles) {
+      if (!this.data.files[file.sha256]) {
+        this.data.files[file.sha256] = { name: file.name, batchId: batch.id }
+      }
+    }
+    this.save()
+  }
+
+  private load(): LedgerData {
+    if (fs.existsSync(this.filePath)) {
+      try {
+        return JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as LedgerData
+      } catch (error) {
+        console.error('Upload ledger parse error:', error)
+      }
+    }
+    return { lastSequence: 0, batches: [], files: {} }
+  }
+
+  private save(): void {
+    const tmpFile = `${this.filePath}.tmp`
+    fs.writeFileSync(tmpFile, JSON.stringify(this.data, null, 2))
+    fs.renameSync(tmpFile, this.filePath)
+  }
+}
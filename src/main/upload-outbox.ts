@@ -0,0 +1,316 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import { net, powerMonitor } from 'electron'
+import type { Uploader } from './uploader'
+import type { ContentFile } from './upload-ledger'
+import type { PurgeReason } from './retention'
+
+/**
+ * 送信待ちバッチ（ZIPとメタデータを封印済み）
+ */
+export interface OutboxBatch {
+  id: string
+  // 送信順の番号（受信側はこの順にバッチを重ねる。差分送信以前のバッチにはない）
+  sequence?: number
+  createdAt: string
+  dataDir: string
+  zipFileName: string
+  metadata: Record<string, unknown>
+  files: Array<{ filePath: string; thumbnailPath: string }>
+  screenshotsCount: number
+  attempts: number
+  nextAttemptAt: string
+  lastError: string | null
+  // メタデータの検証エラー（記録を失わないよう、エラーを添えて封印したバッチ）
+  metadataErrors?: string[]
+  // このバッチで初めて送るファイル（受領後に送信台帳へ記録）
+  newFiles?: ContentFile[]
+  // API送信の再開用ID（チャンク送信の途中で中断した場合）
+  apiUploadId?: string | null
+  // 再開可能アップロードのセッション（Drive・発行済みアップロードURL）
+  // resumable: 発行元が再開可能なセッションと明示したURL（それ以外は1回のPUTで送る）
+  uploadSession?: { uri: string; uploadId?: string | null; resumable?: boolean } | null
+}
+
+/**
+ * 端末内のデータを削除したことの管理者への報告（送信できるまで再送する）
+ */
+export interface PurgeReceipt {
+  id: string
+  reason: PurgeReason
+  filesDeleted: number
+  bytesDeleted: number
+  purgedAt: string
+  attempts: number
+  nextAttemptAt: string
+  lastError: string | null
+}
+
+export interface DrainResult {
+  sent: number
+  failed: number
+  remaining: number
+  remainingScreenshots: number
+  lastError: string | null
+}
+
+// 再送間隔（1分から倍々で最大1時間）
+const RETRY_BASE_MS = 60 * 1000
+const RETRY_MAX_MS = 60 * 60 * 1000
+// オンライン復帰・再送期限の確認間隔
+const WATCH_INTERVAL_MS = 30 * 1000
+// 削除の報告の送信待ち（全削除でも残すファイル。画面の内容は含まない）
+const PURGE_RECEIPTS_FILE = 'purge-receipts.json'
+
+/**
+ * 再起動後も残る送信キュー
+ * バッチごとにフォルダを作り、batch.json が書かれたものだけを送信対象とする
+ */
+export class UploadOutbox {
+  private dir: string
+  private receiptsFile: string
+  private draining: Promise<DrainResult> | null = null
+  private timer: NodeJS.Timeout | null = null
+  private wasOnline = true
+  private onPowerResume: (() => void) | null = null
+
+  constructor(dataDir: string) {
+    this.dir = path.join(dataDir, 'outbox')
+    this.receiptsFile = path.join(dataDir, PURGE_RECEIPTS_FILE)
+    if (!fs.existsSync(this.dir)) {
+      fs.mkdirSync(this.dir, { recursive: true })
+    }
+  }
+
+  /**
+   * バッチ用フォルダを作成してパスを返す
+   */
+  createBatchDir(id: string): string {
+    const batchDir = path.join(this.dir, id)
+    fs.mkdirSync(batchDir, { recursive: true })
+    return batchDir
+  }
+
+  getZipPath(batch: OutboxBatch): string {
+    return path.join(this.dir, batch.id, 'bundle.zip')
+  }
+
+  /**
+   * バッチを封印（batch.json を書いた時点で送信対象になる）
+   */
+  save(batch: OutboxBatch): void {
+    const batchFile = path.join(this.dir, batch.id, 'batch.json')
+    const tmpFile = `${batchFile}.tmp`
+    fs.writeFileSync(tmpFile, JSON.stringify(batch, null, 2))
+    fs.renameSync(tmpFile, batchFile)
+  }
+
+  list(): OutboxBatch[] {
+    const batches: OutboxBatch[] = []
+
+    for (const name of fs.readdirSync(this.dir)) {
+      const batchFile = path.join(this.dir, name, 'batch.json')
+      if (!fs.existsSync(batchFile)) continue
+      try {
+        batches.push(JSON.parse(fs.readFileSync(batchFile, 'utf8')) as OutboxBatch)
+      } catch (error) {
+        console.error('Outbox batch parse error:', name, error)
+      }
+    }
+
+    return batches.sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+  }
+
+  pendingCount(): number {
+    return this.list().length
+  }
+
+  /**
+   * 削除の報告を送信待ちに追加（次回の送信で送る）
+   */
+  addPurgeReceipt(reason: PurgeReason, result: { files: number; bytes: number }): void {
+    const now = new Date().toISOString()
+    const receipts = this.listPurgeReceipts()
+    receipts.push({
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`,
+      reason,
+      filesDeleted: result.files,
+      bytesDeleted: result.bytes,
+      purgedAt: now,
+      attempts: 0,
+      nextAttemptAt: now,
+      lastError: null,
+    })
+    this.savePurgeReceipts(receipts)
+  }
+
+  listPurgeReceipts(): PurgeReceipt[] {
+    if (!fs.existsSync(this.receiptsFile)) return []
+    try {
+      return JSON.parse(fs.readFileSync(this.receiptsFile, 'utf8')) as PurgeReceipt[]
+    } catch (error) {
+      console.error('Purge receipts parse error:', error)
+      return []
+    }
+  }
+
+  private savePurgeReceipts(receipts: PurgeReceipt[]): void {
+    if (receipts.length === 0) {
+      fs.rmSync(this.receiptsFile, { force: true })
+      return
+    }
+    const tmpFile = `${this.receiptsFile}.tmp`
+    fs.writeFileSync(tmpFile, JSON.stringify(receipts, null, 2))
+    fs.renameSync(tmpFile, this.receiptsFile)
+  }
+
+  /**
+   * 実行中の送信があれば終わるまで待つ
+   */
+  async waitForDrain(): Promise<void> {
+    await this.draining?.catch(() => {})
+  }
+
+  /**
+   * 送信待ちバッチを古い順に送信
+   * force=true の場合はバックオフ待ちのバッチも即時送信する
+   */
+  drain(uploader: Uploader, options: { force?: boolean } = {}): Promise<DrainResult> {
+    // 同時に複数回送信しない
+    if (!this.draining) {
+      this.draining = this.runDrain(uploader, options.force ?? false).finally(() => {
+        this.draining = null
+      })
+    }
+    return this.draining
+  }
+
+  /**
+   * 定期的に再送を試み、オンライン復帰・スリープ復帰時は即時再送する
+   */
+  startAutoRetry(
+    getUploader: () => Uploader | null,
+    onResult: (result: DrainResult) => void
+  ): void {
+    if (this.timer) return
+
+    const run = async (force: boolean) => {
+      const uploader = getUploader()
+      if (!uploader) return
+      if (this.pendingCount() === 0 && this.listPurgeReceipts().length === 0) return
+      const result = await this.drain(uploader, { force })
+      if (result.sent > 0 || result.failed > 0) {
+        onResult(result)
+      }
+    }
+
+    this.wasOnline = net.isOnline()
+    this.timer = setInterval(() => {
+      const online = net.isOnline()
+      const cameOnline = online && !this.wasOnline
+      this.wasOnline = online
+      if (!online) return
+      if (cameOnline) {
+        console.log('[OUTBOX] ネットワーク復帰を検知')
+      }
+      run(cameOnline).catch((error) => console.error('Outbox retry error:', error))
+    }, WATCH_INTERVAL_MS)
+
+    this.onPowerResume = () => {
+      run(true).catch((error) => console.error('Outbox retry error:', error))
+    }
+    powerMonitor.on('resume', this.onPowerResume)
+  }
+
+  stopAutoRetry(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+    if (this.onPowerResume) {
+      powerMonitor.off('resume', this.onPowerResume)
+      this.onPowerResume = null
+    }
+  }
+
+  private async runDrain(uploader: Uploader, force: boolean): Promise<DrainResult> {
+    const result: DrainResult = {
+      sent: 0,
+      failed: 0,
+      remaining: 0,
+      remainingScreenshots: 0,
+      lastError: null,
+    }
+    const now = Date.now()
+
+    for (const batch of this.list()) {
+      if (!force && new Date(batch.nextAttemptAt).getTime() > now) continue
+
+      console.log(`[OUTBOX] 送信: ${batch.id} (試行${batch.attempts + 1}回目)`)
+      let error: string | null = null
+      try {
+        const sendResult = await uploader.send(batch, this.getZipPath(batch), () =>
+          this.save(batch)
+        )
+        if (!sendResult.success) {
+          error = sendResult.message
+        }
+      } catch (sendError) {
+        error = String(sendError)
+      }
+
+      if (error === null) {
+        fs.rmSync(path.join(this.dir, batch.id), { recursive: true, force: true })
+        result.sent++
+        continue
+      }
+
+      // 失敗: 指数バックオフで次回の送信時刻を決める
+      batch.attempts++
+      const delay = Math.min(RETRY_BASE_MS * 2 ** (batch.attempts - 1), RETRY_MAX_MS)
+      batch.nextAttemptAt = new Date(Date.now() + delay).toISOString()
+      batch.lastError = error
+      this.save(batch)
+
+      result.failed++
+      result.lastError = error
+      console.error(`[OUTBOX] 送信失敗: ${batch.id} 次回 ${batch.nextAttemptAt}`, error)
+    }
+
+    await this.drainPurgeReceipts(uploader, force)
+
+    const remaining = this.list()
+    result.remaining = remaining.length
+    result.remainingScreenshots = remaining.reduce((sum, b) => sum + b.screenshotsCount, 0)
+    return result
+  }
+
+  // 削除の報告を送信（失敗しても送信結果には含めず、バッチと同じ間隔で再送する）
+  private async drainPurgeReceipts(uploader: Uploader, force: boolean): Promise<void> {
+    const now = Date.now()
+    const receipts = this.listPurgeReceipts()
+    if (receipts.length === 0) return
+
+    const remaining: PurgeReceipt[] = []
+    for (const receipt of receipts) {
+      if (!force && new Date(receipt.nextAttemptAt).getTime() > now) {
+        remaining.push(receipt)
+        continue
+      }
+      try {
+        await uploader.sendPurgeReceipt(receipt)
+        console.log(`[OUTBOX] 削除の報告を送信: ${receipt.id}`)
+      } catch (error) {
+        receipt.attempts++
+        const delay = Math.min(RETRY_BASE_MS * 2 ** (receipt.attempts - 1), RETRY_MAX_MS)
+        receipt.nextAttemptAt = new Date(Date.now() + delay).toISOString()
+        receipt.lastError = String(error)
+        remaining.push(receipt)
+        console.error(`[OUTBOX] 削除の報告の送信失敗: ${receipt.id}`, error)
+      }
+    }
+    // 送信中に追加された報告は残す
+    const added = this.listPurgeReceipts().filter((r) => !receipts.some((o) => o.id === r.id))
+    this.savePurgeReceipts([...remaining, ...added])
+  }
+}
@@ -0,0 +1,453 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import * as crypto from 'crypto'
+import { Readable } from 'stream'
+import { Config, UploadTargetConfig } from './config'
+import { ApiUploader } from './api-uploader'
+import {
+  FetchFn,
+  GoogleDriveUploader,
+  netFetch,
+  UploadResult,
+  uploadToSessionUri,
+} from './google-drive-uploader'
+import type { OutboxBatch } from './upload-outbox'
+
+/**
+ * 送信時に渡す情報
+ */
+export interface UploadTargetContext {
+  projectName: string
+  subjectName: string
+  // APIに送るメタデータ（設定された形式に変換済み）
+  metadata: object
+  // 再開用の情報をバッチに記録したときに呼ぶ（送信キューに保存される）
+  persist: () => void
+  onProgress: (sentBytes: number, totalBytes: number) => void
+}
+
+export interface UploadTargetResult {
+  message: string
+  // APIに送るメタデータに追加する送信先の情報（ファイルIDなど）
+  remote?: Record<string, unknown>
+}
+
+/**
+ * 送信先（失敗時は例外を投げる）
+ */
+export interface UploadTarget {
+  readonly name: string
+  // 送信先がメタデータも受け取る場合はtrue（別途APIに送らない）
+  readonly includesMetadata: boolean
+  upload(
+    batch: OutboxBatch,
+    zipFilePath: string,
+    context: UploadTargetContext
+  ): Promise<UploadTargetResult>
+}
+
+export type { FetchFn }
+
+// フォルダ名に使えない文字を置き換え
+function toFolderName(name: string): string {
+  return name.replace(/[\\/:*?"<>|]/g, '_').trim() || '_'
+}
+
+/**
+ * ファイルを読みながら1回のPUTで送信（ファイル全体をメモリに読み込まない）
+ */
+async function putFile(
+  url: string,
+  filePath: string,
+  headers: Record<string, string>,
+  fetchFn: FetchFn = netFetch
+): Promise<Response> {
+  const size = fs.statSync(filePath).size
+  const body = Readable.toWeb(fs.createReadStream(filePath)) as ReadableStream<Uint8Array>
+  return fetchFn(url, {
+    method: 'PUT',
+    headers: { ...headers, 'Content-Length': String(size) },
+    body,
+    duplex: 'half',
+  })
+}
+
+// ファイル全体のMD5（16進、単一PUTのETagとの照合用）
+async function md5File(filePath: string): Promise<string> {
+  const hash = crypto.createHash('md5')
+  for await (const chunk of fs.createReadStream(filePath)) {
+    hash.update(chunk as Buffer)
+  }
+  return hash.digest('hex')
+}
+
+/**
+ * 単一PUTの応答が送ったファイルと一致するか（本文のサイズ または ETag が一致する場合のみ）
+ */
+async function verifySinglePut(response: Response, filePath: string): Promise<UploadResult> {
+  const text = await response.text()
+  let body: { id?: string; webViewLink?: string; size?: number | string } = {}
+  try {
+    body = text ? JSON.parse(text) : {}
+  } catch {
+    // JSON以外の応答はETagで確認
+  }
+
+  const size = fs.statSync(filePath).size
+  const etag = response.headers.get('etag')?.replace(/^W\//, '').replace(/"/g, '')
+  const sizeMatches = body.size !== undefined && Number(body.size) === size
+  const etagMatches = Boolean(etag) && etag === (await md5File(filePath))
+  if (!sizeMatches && !etagMatches) {
+    throw new Error('Upload could not be verified: size or ETag does not match')
+  }
+  return { success: true, fileId: body.id, webViewLink: body.webViewLink }
+}
+
+/**
+ * APIが発行した短期アップロードURLに送信
+ * 再開可能なセッション（kind: resumable）は送信済み範囲を確認しながらチャンクで送り、
+ * それ以外のURL（署名付きURLなど）は1回のPUTで送ってサイズまたはETagを確認する
+ * 端末は送信先の資格情報を持たない
+ */
+export class BrokeredTarget implements UploadTarget {
+  readonly name = 'brokered'
+  readonly includesMetadata = false
+  private apiUrl: string
+  private token: string
+  private fetchFn: FetchFn
+
+  constructor(apiUrl: string, token: string, fetchFn: FetchFn = netFetch) {
+    this.apiUrl = apiUrl
+    this.token = token
+    this.fetchFn = fetchFn
+  }
+
+  async upload(
+    batch: OutboxBatch,
+    zipFilePath: string,
+    context: UploadTargetContext
+  ): Promise<UploadTargetResult> {
+    // 前回の再開可能なセッションが残っていれば続きから送信
+    let result = batch.uploadSession?.resumable
+      ? await uploadToSessionUri(batch.uploadSession.uri, zipFilePath, {
+          onProgress: context.onProgress,
+          fetchFn: this.fetchFn,
+        })
+      : null
+
+    if (!result) {
+      batch.uploadSession = await this.requestUploadSession(batch.zipFileName, zipFilePath)
+      context.persist()
+
+      if (batch.uploadSession.resumable) {
+        console.log('Uploading via resumable upload session...')
+        result = await uploadToSessionUri(batch.uploadSession.uri, zipFilePath, {
+          onProgress: context.onProgress,
+          fetchFn: this.fetchFn,
+        })
+        if (!result) {
+          throw new Error('Upload session expired')
+        }
+      } else {
+        console.log('Uploading via upload URL...')
+        result = await this.putOnce(batch.uploadSession.uri, zipFilePath, context)
+      }
+    }
+
+    return {
+      message: 'アップロードしました',
+      remote: {
+        upload_id: batch.uploadSession?.uploadId,
+        google_drive_file_id: result.fileId,
+        google_drive_link: result.webViewLink,
+      },
+    }
+  }
+
+  // 再開できないURLに1回のPUTで送信
+  private async putOnce(
+    uploadUrl: string,
+    zipFilePath: string,
+    context: UploadTargetContext
+  ): Promise<UploadResult> {
+    const size = fs.statSync(zipFilePath).size
+    context.onProgress(0, size)
+    const response = await putFile(
+      uploadUrl,
+      zipFilePath,
+      { 'Content-Type': 'application/zip' },
+      this.fetchFn
+    )
+    if (!response.ok) {
+      const errorText = await response.text()
+      throw new Error(`Upload failed: ${response.status} - ${errorText}`)
+    }
+    const result = await verifySinglePut(response, zipFilePath)
+    context.onProgress(size, size)
+    return result
+  }
+
+  /**
+   * APIに短期アップロードURLの発行を依頼
+   */
+  private async requestUploadSession(
+    zipFileName: string,
+    zipFilePath: string
+  ): Promise<NonNullable<OutboxBatch['uploadSession']>> {
+    const response = await this.fetchFn(`${this.apiUrl}/api/recorder/upload-session`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Subject-Token': this.token,
+      },
+      body: JSON.stringify({
+        file_name: zipFileName,
+        size: fs.statSync(zipFilePath).size,
+        content_type: 'application/zip',
+      }),
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      throw new Error(`Upload session request failed: ${response.status} - ${errorText}`)
+    }
+
+    // kind: resumable=再開可能なセッションURI（Driveなど） / それ以外・省略=単一PUTのURL
+    const session = (await response.json()) as {
+      upload_url: string
+      upload_id?: string
+      kind?: string
+    }
+    if (!session.upload_url) {
+      throw new Error('No upload URL received')
+    }
+    return {
+      uri: session.upload_url,
+      uploadId: session.upload_id ?? null,
+      resumable: session.kind === 'resumable',
+    }
+  }
+}
+
+/**
+ * S3互換オブジェクトストレージ（署名付きURL）
+ * presign_url に送信先のURLを問い合わせ、返された署名付きURLにPUTする
+ */
+export class S3PresignedTarget implements UploadTarget {
+  readonly name = 's3'
+  readonly includesMetadata = false
+  private presignUrl: string
+  private token: string
+  private fetchFn: FetchFn
+
+  constructor(presignUrl: string, token: string, fetchFn: FetchFn = netFetch) {
+    this.presignUrl = presignUrl
+    this.token = token
+    this.fetchFn = fetchFn
+  }
+
+  async upload(
+    batch: OutboxBatch,
+    zipFilePath: string,
+    context: UploadTargetContext
+  ): Promise<UploadTargetResult> {
+    const size = fs.statSync(zipFilePath).size
+    const presignResponse = await this.fetchFn(this.presignUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Subject-Token': this.token,
+      },
+      body: JSON.stringify({
+        file_name: batch.zipFileName,
+        size,
+        content_type: 'application/zip',
+        project_name: context.projectName,
+        subject_name: context.subjectName,
+      }),
+    })
+
+    if (!presignResponse.ok) {
+      const errorText = await presignResponse.text()
+      throw new Error(`Presign request failed: ${presignResponse.status} - ${errorText}`)
+    }
+
+    const presigned = (await presignResponse.json()) as {
+      url: string
+      headers?: Record<string, string>
+    }
+    if (!presigned.url) {
+      throw new Error('No presigned URL received')
+    }
+
+    context.onProgress(0, size)
+    const response = await putFile(
+      presigned.url,
+      zipFilePath,
+      { 'Content-Type': 'application/zip', ...presigned.headers },
+      this.fetchFn
+    )
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      throw new Error(`S3 upload failed: ${response.status} - ${errorText}`)
+    }
+    context.onProgress(size, size)
+
+    // 署名部分（クエリ）は記録しない
+    const objectUrl = new URL(presigned.url)
+    objectUrl.search = ''
+    return {
+      message: 'ストレージにアップロードしました',
+      remote: { storage_url: objectUrl.toString() },
+    }
+  }
+}
+
+/**
+ * WebDAV・SharePointなどHTTP PUTを受け付けるサーバー
+ * <url>/<プロジェクト名>/<対象者名>/<ZIPファイル名> に保存する
+ */
+export class WebDavTarget implements UploadTarget {
+  readonly name = 'webdav'
+  readonly includesMetadata = false
+  private baseUrl: string
+  private headers: Record<string, string>
+  private fetchFn: FetchFn
+
+  constructor(
+    target: Extract<UploadTargetConfig, { type: 'webdav' }>,
+    fetchFn: FetchFn = netFetch
+  ) {
+    this.baseUrl = target.url.replace(/\/+$/, '')
+    this.headers = { ...target.headers }
+    if (target.username) {
+      const credentials = `${target.username}:${target.password ?? ''}`
+      this.headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`
+    }
+    this.fetchFn = fetchFn
+  }
+
+  async upload(
+    batch: OutboxBatch,
+    zipFilePath: string,
+    context: UploadTargetContext
+  ): Promise<UploadTargetResult> {
+    // プロジェクト・対象者のフォルダを作成（既にある場合は405）
+    let folderUrl = this.baseUrl
+    for (const name of [context.projectName, context.subjectName]) {
+      folderUrl = `${folderUrl}/${encodeURIComponent(toFolderName(name))}`
+      const response = await this.fetchFn(folderUrl, { method: 'MKCOL', headers: this.headers })
+      if (!response.ok && response.status !== 405) {
+        const errorText = await response.text()
+        throw new Error(`Folder creation failed: ${response.status} - ${errorText}`)
+      }
+    }
+
+    const size = fs.statSync(zipFilePath).size
+    const fileUrl = `${folderUrl}/${encodeURIComponent(batch.zipFileName)}`
+    context.onProgress(0, size)
+    const response = await putFile(
+      fileUrl,
+      zipFilePath,
+      { ...this.headers, 'Content-Type': 'application/zip' },
+      this.fetchFn
+    )
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      throw new Error(`WebDAV upload failed: ${response.status} - ${errorText}`)
+    }
+    context.onProgress(size, size)
+
+    return {
+      message: 'サーバーにアップロードしました',
+      remote: { storage_url: fileUrl },
+    }
+  }
+}
+
+/**
+ * ローカル・ネットワークフォルダ
+ * <path>/<プロジェクト名>/<対象者名>/<ZIPファイル名> にコピーする
+ */
+export class LocalFolderTarget implements UploadTarget {
+  readonly name = 'folder'
+  readonly includesMetadata = false
+  private rootDir: string
+
+  constructor(rootDir: string) {
+    this.rootDir = rootDir
+  }
+
+  async upload(
+    batch: OutboxBatch,
+    zipFilePath: string,
+    context: UploadTargetContext
+  ): Promise<UploadTargetResult> {
+    if (!fs.existsSync(this.rootDir)) {
+      throw new Error(`Upload folder not found: ${this.rootDir}`)
+    }
+
+    const targetDir = path.join(
+      this.rootDir,
+      toFolderName(context.projectName),
+      toFolderName(context.subjectName)
+    )
+    fs.mkdirSync(targetDir, { recursive: true })
+
+    // コピー途中のファイルを完成品と誤認されないよう、別名でコピーしてから改名
+    const size = fs.statSync(zipFilePath).size
+    const targetPath = path.join(targetDir, batch.zipFileName)
+    const partialPath = `${targetPath}.partial`
+    context.onProgress(0, size)
+    await fs.promises.copyFile(zipFilePath, partialPath)
+    await fs.promises.rename(partialPath, targetPath)
+    context.onProgress(size, size)
+
+    return {
+      message: 'フォルダに保存しました',
+      remote: { storage_path: targetPath },
+    }
+  }
+}
+
+/**
+ * 設定から送信先を決定
+ * upload_target がない場合は upload_mode → google_drive → API の順で決める
+ */
+export function resolveUploadTarget(config: Config): UploadTargetConfig {
+  if (config.upload_target) return config.upload_target
+  if (config.upload_mode === 'brokered') return { type: 'brokered' }
+  if (config.google_drive) return { type: 'google_drive' }
+  return { type: 'api' }
+}
+
+export function createUploadTarget(config: Config): UploadTarget {
+  const target = resolveUploadTarget(config)
+
+  switch (target.type) {
+    case 'google_drive':
+      if (!config.google_drive) {
+        throw new Error('Google Drive is not configured')
+      }
+      return new GoogleDriveUploader(
+        {
+          client_id: config.google_drive.client_id,
+          client_secret: config.google_drive.client_secret,
+          refresh_token: config.google_drive.refresh_token,
+        },
+        config.google_drive.folder_id
+      )
+    case 'brokered':
+      return new BrokeredTarget(config.api_url, config.token)
+    case 's3':
+      return new S3PresignedTarget(target.presign_url, config.token)
+    case 'webdav':
+      return new WebDavTarget(target)
+    case 'folder':
+      return new LocalFolderTarget(target.path)
+    case 'api':
+      return new ApiUploader(config.api_url, config.token)
+  }
+}
@@ -1,184 +1,410 @@
 import * as fs from 'fs'
 import * as path from 'path'
 import * as os from 'os'
-import { net } from 'electron'
+import * as crypto from 'crypto'
+import { app, net, screen } from 'electron'
 import { Config } from './config'
-import { GoogleDriveUploader, createZipArchive } from './google-drive-uploader'
+import { createZipArchive } from './google-drive-uploader'
+import type { IdleInterval, PauseInterval, ScreenshotRecord, TaskInterval } from './recorder'
+import type { OutboxBatch, PurgeReceipt, UploadOutbox } from './upload-outbox'
+import type { SecureStore } from './secure-store'
+import { createUploadTarget } from './upload-targets'
+import { ContentFile, LedgerFile, UploadLedger, hashContent } from './upload-ledger'
+import { BUNDLE_ENCRYPTION_ALGORITHM, createBundleWriteStream, getKeyFingerprint } from './bundle-crypto'
+import { secureDeleteFile } from './retention'
+import {
+  DeviceInfoV2,
+  METADATA_SCHEMA_VERSION,
+  MetadataV2,
+  validateMetadataV2,
+  metadataForVersion,
+  toMetadataV1,
+} from './metadata-schema'
 
-interface UploadData {
+export interface UploadData {
+  sessionId: string | null
   stats: {
     startTime: string
     endTime: string | null
     totalScreenshots: number
     totalActiveSeconds: number
+    totalIdleSeconds: number
     appSummary: Record<string, number>
   }
-  screenshots: Array<{
-    id: string
-    timestamp: string
-    appName: string
-    windowTitle: string
-    filePath: string
-    thumbnailPath: string
-    durationSeconds: number
-  }>
+  screenshots: ScreenshotRecord[]
+  idleIntervals: IdleInterval[]
+  pauseIntervals: PauseInterval[]
+  taskIntervals: TaskInterval[]
+  // 記録IDごとの認識した文字
+  ocrText?: Record<string, string>
   dataDir: string
 }
 
+// メタデータの検証エラー（バッチのフォルダ内・ZIP内では metadata.json の代わり）
+const INVALID_METADATA_FILE = 'metadata.invalid.json'
+// 送信中だけ置く復号済みのZIP（バッチのフォルダ内）
+const DECRYPTED_BUNDLE_NAME = 'bundle.sending.zip'
+
+const OS_NAMES: Record<string, string> = {
+  darwin: 'macOS',
+  win32: 'Windows',
+  linux: 'Linux',
+}
+
+// 復号済みのZIPを上書きしてから削除
+function removeDecryptedBundle(filePath: string): void {
+  try {
+    if (fs.existsSync(filePath)) secureDeleteFile(filePath)
+  } catch (error) {
+    console.error('Failed to remove decrypted bundle:', error)
+    fs.rmSync(filePath, { force: true })
+  }
+}
+
+/**
+ * 端末の情報（OS・アプリのバージョン・接続中のディスプレイ）
+ */
+function getDeviceInfo(): DeviceInfoV2 {
+  const primaryId = screen.getPrimaryDisplay().id
+  return {
+    os: OS_NAMES[process.platform] ?? process.platform,
+    os_version: os.release(),
+    arch: process.arch,
+    hostname: os.hostname(),
+    app_version: app.getVersion(),
+    displays: screen.getAllDisplays().map((d) => ({
+      id: String(d.id),
+      width: d.size.width,
+      height: d.size.height,
+      scale_factor: d.scaleFactor,
+      primary: d.id === primaryId,
+    })),
+  }
+}
+
+// 区間の合計秒数（終わっていない区間は now まで）
+function totalSeconds(intervals: Array<{ start: string; end: string | null }>, now: Date): number {
+  return intervals.reduce((sum, interval) => {
+    const end = interval.end ? new Date(interval.end).getTime() : now.getTime()
+    return sum + Math.max(0, Math.floor((end - new Date(interval.start).getTime()) / 1000))
+  }, 0)
+}
+
+/**
+ * 送信の進捗（バッチごと）
+ */
+export interface UploadProgress {
+  batchId: string
+  sentBytes: number
+  totalBytes: number
+}
+
 export class Uploader {
   private config: Config
+  private store: SecureStore | null
+  private onProgress: ((progress: UploadProgress) => void) | null
 
-  constructor(config: Config) {
+  constructor(
+    config: Config,
+    store: SecureStore | null = null,
+    onProgress: ((progress: UploadProgress) => void) | null = null
+  ) {
     this.config = config
+    this.store = store
+    this.onProgress = onProgress
   }
 
-  async upload(data: UploadData): Promise<{ success: boolean; message: string }> {
-    const { stats, screenshots, dataDir } = data
-
-    // メタデータを作成
-    const metadata = {
-      export_version: '1.0',
-      exported_at: new Date().toISOString(),
-      token: this.config.token,
-      subject_name: this.config.subject_name,
-      project_name: this.config.project_name,
-      device: {
-        os: process.platform === 'darwin' ? 'macOS' : 'Windows',
-        hostname: os.hostname(),
+  /**
+   * セッションデータをZIPとメタデータに封印して送信キューに追加
+   */
+  async seal(data: UploadData, outbox: UploadOutbox): Promise<OutboxBatch> {
+    const { stats, dataDir } = data
+
+    // ファイルが残っている記録のみ送信（削除済み・消失ファイルは除外）
+    const screenshots = data.screenshots.filter((s) => fs.existsSync(s.filePath))
+
+    // バッチIDと送信順の番号
+    const now = new Date()
+    const batchId = `${now.getTime()}-${crypto.randomUUID().slice(0, 8)}`
+    const ledger = new UploadLedger(dataDir)
+    const sequence = ledger.nextSequence()
+
+    // 内容ハッシュで受領済みのファイルを判定し、未送信のファイルだけをZIPに入れる
+    const hashes = new Map<string, string>()
+    const acknowledged = new Map<string, LedgerFile>()
+    const newFiles: ContentFile[] = []
+    for (const s of screenshots) {
+      const files: Array<[string, string]> = [[s.filePath, 'screenshots']]
+      if (fs.existsSync(s.thumbnailPath)) {
+        files.push([s.thumbnailPath, 'thumbnails'])
+      }
+      for (const [filePath, folder] of files) {
+        const sha256 = hashContent(filePath, this.store)
+        hashes.set(filePath, sha256)
+        const uploaded = ledger.find(sha256)
+        if (uploaded) {
+          acknowledged.set(sha256, uploaded)
+        } else if (!newFiles.some((f) => f.sha256 === sha256)) {
+          newFiles.push({ sha256, name: `${folder}/${path.basename(filePath)}` })
+        }
+      }
+    }
+
+    // 管理者の公開鍵が設定されていればZIPを暗号化（不正な鍵の場合は封印しない）
+    const adminKey = this.config.admin_public_key
+    const encryption = adminKey
+      ? { algorithm: BUNDLE_ENCRYPTION_ALGORITHM, key_fingerprint: getKeyFingerprint(adminKey) }
+      : null
+
+    // メタデータ（v2）を作成して検証（不正な場合も記録は破棄せず、エラーを添えて封印する）
+    const metadata: MetadataV2 = {
+      schema_version: METADATA_SCHEMA_VERSION,
+      exported_at: now.toISOString(),
+      batch: { id: batchId, sequence },
+      study: {
+        token: this.config.token,
+        project_name: this.config.project_name,
+        subject_name: this.config.subject_name,
       },
-      period: {
+      device: getDeviceInfo(),
+      session: {
+        id: data.sessionId,
         start: stats.startTime,
-        end: stats.endTime || new Date().toISOString(),
+        end: stats.endTime || now.toISOString(),
+        total_active_seconds: stats.totalActiveSeconds,
+        total_idle_seconds: stats.totalIdleSeconds,
+        total_paused_seconds: totalSeconds(data.pauseIntervals, now),
+        app_summary: stats.appSummary,
+      },
+      intervals: {
+        idle: data.idleIntervals,
+        pause: data.pauseIntervals,
+        task: data.taskIntervals,
       },
-      total_active_seconds: stats.totalActiveSeconds,
-      app_summary: stats.appSummary,
-      screenshots_count: screenshots.length,
       events: screenshots.map((s) => ({
+        id: s.id,
         timestamp: s.timestamp,
         app: s.appName,
         title: s.windowTitle,
         duration_seconds: s.durationSeconds,
+        display_id: s.displayId,
         screenshot: path.basename(s.filePath),
+        thumbnail: path.basename(s.thumbnailPath),
+        redactions: s.redactions ?? [],
+        task: s.task ?? null,
+        repeat_count: s.repeatCount ?? 0,
+        trigger: s.trigger ?? 'timer',
+        ...(this.config.upload_ocr_text && data.ocrText?.[s.id] !== undefined
+          ? { text: data.ocrText[s.id] }
+          : {}),
       })),
+      encrypted_payloads: this.encryptsPayloads(),
+      encryption,
     }
+    const metadataErrors = validateMetadataV2(metadata)
+    if (metadataErrors.length > 0) {
+      console.error('Invalid metadata, sealing with metadata.invalid.json:', metadataErrors)
+    }
+
+    // ZIPファイル名は日時のみ（対象者名はフォルダで管理）
+    const dateStr = now.toISOString().split('T')[0] // 2026-02-02
+    const timeStr = now.toTimeString().split(' ')[0].replace(/:/g, '-') // 19-30-00
 
-    // Google Drive設定がある場合はGoogle Driveにアップロード
-    if (this.config.google_drive) {
-      return await this.uploadToGoogleDrive(metadata, dataDir)
+    const batch: OutboxBatch = {
+      id: batchId,
+      sequence,
+      createdAt: now.toISOString(),
+      dataDir,
+      zipFileName: `${dateStr}_${timeStr}.zip${adminKey ? '.enc' : ''}`,
+      metadata: { ...metadata },
+      files: screenshots.map((s) => ({ filePath: s.filePath, thumbnailPath: s.thumbnailPath })),
+      screenshotsCount: screenshots.length,
+      attempts: 0,
+      nextAttemptAt: now.toISOString(),
+      lastError: null,
+      newFiles,
+      ...(metadataErrors.length > 0 ? { metadataErrors } : {}),
+    }
+
+    const batchDir = outbox.createBatchDir(batch.id)
+    if (metadataErrors.length > 0) {
+      // 管理者の鍵で暗号化したZIPは端末で開けないため、エラーの内容はバッチのフォルダにも残す
+      fs.writeFileSync(
+        path.join(batchDir, INVALID_METADATA_FILE),
+        JSON.stringify({ errors: metadataErrors }, null, 2)
+      )
     }
+    console.log('Creating ZIP archive...')
+    const zipPath = outbox.getZipPath(batch)
+    // 管理者の鍵で暗号化したZIPは送信先でも暗号文のまま保管される
+    // それ以外も送信待ちの間は暗号化して保管（どちらも平文のZIPをディスクに書かない）
+    const output = adminKey
+      ? createBundleWriteStream(zipPath, adminKey)
+      : this.store?.createWriteStream(zipPath)
+    await createZipArchive(screenshots, zipPath, metadata, {
+      output,
+      store: this.store,
+      encryptedPayloads: this.encryptsPayloads(),
+      legacyMetadata: metadataErrors.length > 0 ? undefined : toMetadataV1(metadata),
+      metadataErrors,
+      delta: {
+        batchId,
+        hashes,
+        acknowledged,
+        index: ledger.buildIndex({ id: batchId, sequence, newFiles }, outbox.list()),
+      },
+    })
+    outbox.save(batch)
 
-    // Google Drive設定がない場合はAPIにアップロード
-    return await this.uploadToApi(metadata, screenshots, dataDir)
+    return batch
   }
 
   /**
-   * Google Driveにアップロード
+   * 封印済みバッチを送信
+   * persist は再開用の情報をバッチに記録したときに呼ばれる
    */
-  private async uploadToGoogleDrive(
-    metadata: object & { google_drive_file_id?: string; google_drive_link?: string },
-    dataDir: string
+  async send(
+    batch: OutboxBatch,
+    zipFilePath: string,
+    persist: () => void = () => {}
   ): Promise<{ success: boolean; message: string }> {
-    try {
-      const gdrive = new GoogleDriveUploader(
-        {
-          client_id: this.config.google_drive!.client_id,
-          client_secret: this.config.google_drive!.client_secret,
-          refresh_token: this.config.google_drive!.refresh_token,
-        },
-        this.config.google_drive!.folder_id
-      )
-
-      // ZIPファイルを一時フォルダに作成（ファイル名は日時のみ、対象者名はフォルダで管理）
-      const now = new Date()
-      const dateStr = now.toISOString().split('T')[0] // 2026-02-02
-      const timeStr = now.toTimeString().split(' ')[0].replace(/:/g, '-') // 19-30-00
-      const zipFileName = `${dateStr}_${timeStr}.zip`
-      const zipFilePath = path.join(os.tmpdir(), zipFileName)
-
-      console.log('Creating ZIP archive...')
-      await createZipArchive(dataDir, zipFilePath, metadata)
-
-      console.log('Uploading to Google Drive...')
-      const result = await gdrive.uploadZip(
-        zipFilePath,
-        zipFileName,
-        this.config.project_name,
-        this.config.subject_name // 対象者名でサブフォルダを作成
-      )
+    const metadata = metadataForVersion(batch.metadata, this.config.api_metadata_version ?? 1)
 
-      // 一時ファイルを削除
-      if (fs.existsSync(zipFilePath)) {
-        fs.unlinkSync(zipFilePath)
-      }
+    // 暗号化して保管したZIPは送信中だけバッチのフォルダに復号（本人のみ読み書きできる権限）
+    const decryptedPath = path.join(path.dirname(zipFilePath), DECRYPTED_BUNDLE_NAME)
+    let decryptedZip: string | null = null
+    let result: { success: boolean; message: string }
+    try {
+      // 前回の送信が中断して残った復号済みのZIPは上書きせず削除してから作り直す
+      removeDecryptedBundle(decryptedPath)
+      decryptedZip = (await this.store?.streamDecryptedFileTo(zipFilePath, decryptedPath)) ?? null
+      const target = createUploadTarget(this.config)
+      const uploaded = await target.upload(batch, decryptedZip ?? zipFilePath, {
+        projectName: this.config.project_name,
+        subjectName: this.config.subject_name,
+        metadata,
+        persist,
+        onProgress: this.reportProgress(batch),
+      })
 
-      if (result.success) {
-        // メタデータのみをAPIに送信（ファイルパスを含む）
+      if (!target.includesMetadata) {
+        // メタデータのみをAPIに送信（送信先のファイル情報を含む）
         await this.sendMetadataToApi({
           ...metadata,
-          google_drive_file_id: result.fileId,
-          google_drive_link: result.webViewLink,
+          upload_target: target.name,
+          ...uploaded.remote,
         })
-
-        return {
-          success: true,
-          message: 'Google Driveにアップロードしました',
-        }
-      } else {
-        throw new Error(result.error)
       }
+      result = { success: true, message: uploaded.message }
     } catch (error) {
-      console.error('Google Drive upload error:', error)
-      return {
-        success: false,
-        message: `アップロード失敗: ${error}`,
+      console.error('Upload error:', error)
+      result = { success: false, message: `アップロード失敗: ${error}` }
+    } finally {
+      if (decryptedZip) {
+        removeDecryptedBundle(decryptedZip)
       }
     }
+
+    // 受領済みとして台帳に記録し、送信済みファイルは次回のバッチに含めないよう退避
+    if (result.success) {
+      if (batch.sequence !== undefined) {
+        new UploadLedger(batch.dataDir).acknowledge(
+          { id: batch.id, sequence: batch.sequence },
+          batch.newFiles ?? []
+        )
+      }
+      this.moveUploadedFiles(batch.files, batch.dataDir)
+    }
+
+    return result
+  }
+
+  // 暗号化したままの画像をZIPに格納するか（ローカル暗号化が有効な場合のみ）
+  private encryptsPayloads(): boolean {
+    return Boolean(this.store?.isEnabled() && this.config.upload_encrypted_payloads)
   }
 
   /**
-   * メタデータのみをAPIに送信
+   * 送信済みのスクリーンショットとサムネイルを uploaded フォルダへ移動
    */
-  private async sendMetadataToApi(metadata: object): Promise<void> {
-    try {
-      await net.fetch(`${this.config.api_url}/api/recorder/metadata`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'X-Subject-Token': this.config.token,
-        },
-        body: JSON.stringify(metadata),
-      })
-    } catch (error) {
-      console.error('Failed to send metadata to API:', error)
-      // メタデータ送信失敗は致命的ではないので続行
+  private moveUploadedFiles(screenshots: OutboxBatch['files'], dataDir: string): void {
+    const uploadedDir = path.join(dataDir, 'uploaded')
+
+    for (const kind of ['screenshots', 'thumbnails'] as const) {
+      const dir = path.join(uploadedDir, kind)
+      if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true })
+      }
+    }
+
+    for (const s of screenshots) {
+      try {
+        if (fs.existsSync(s.filePath)) {
+          fs.renameSync(s.filePath, path.join(uploadedDir, 'screenshots', path.basename(s.filePath)))
+        }
+        if (fs.existsSync(s.thumbnailPath)) {
+          fs.renameSync(
+            s.thumbnailPath,
+            path.join(uploadedDir, 'thumbnails', path.basename(s.thumbnailPath))
+          )
+        }
+      } catch (error) {
+        console.error('Failed to move uploaded files:', error)
+      }
+    }
+  }
+
+  // 進捗をバッチ単位で通知
+  private reportProgress(batch: OutboxBatch) {
+    return (sentBytes: number, totalBytes: number) => {
+      this.onProgress?.({ batchId: batch.id, sentBytes, totalBytes })
     }
   }
 
   /**
-   * APIに直接アップロード（Google Drive設定がない場合のフォールバック）
+   * 端末内のデータを削除したことを管理者に報告（失敗時は例外を投げ、送信キューが再送する）
    */
-  private async uploadToApi(
-    metadata: object,
-    screenshots: UploadData['screenshots'],
-    dataDir: string
-  ): Promise<{ success: boolean; message: string }> {
-    // フォールバック: Google Drive設定がない場合のAPI直接アップロード
-    // form-dataとnode-fetchはESM互換性の問題があるため、net.fetchでJSON送信に変更
-    const response = await net.fetch(`${this.config.api_url}/api/recorder/upload`, {
+  async sendPurgeReceipt(receipt: PurgeReceipt): Promise<void> {
+    const response = await net.fetch(`${this.config.api_url}/api/recorder/purge-receipt`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
         'X-Subject-Token': this.config.token,
       },
-      body: JSON.stringify({ metadata }),
+      body: JSON.stringify({
+        receipt_id: receipt.id,
+        reason: receipt.reason,
+        files_deleted: receipt.filesDeleted,
+        bytes_deleted: receipt.bytesDeleted,
+        purged_at: receipt.purgedAt,
+        subject_name: this.config.subject_name,
+        project_name: this.config.project_name,
+        app_version: app.getVersion(),
+        device: getDeviceInfo().os,
+      }),
     })
-
     if (!response.ok) {
       const errorText = await response.text()
-      throw new Error(`Upload failed: ${response.status} - ${errorText}`)
+      throw new Error(`Purge receipt failed: ${response.status} - ${errorText}`)
     }
+  }
 
-    const result = (await response.json()) as { success: boolean; message: string }
-    return result
+  /**
+   * メタデータのみをAPIに送信
+   * 送信先がメタデータを受け取らない場合はこれが唯一の経路のため、失敗時は例外を投げる（送信キューが再送する）
+   */
+  private async sendMetadataToApi(metadata: object): Promise<void> {
+    const response = await net.fetch(`${this.config.api_url}/api/recorder/metadata`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Subject-Token': this.config.token,
+      },
+      body: JSON.stringify(metadata),
+    })
+    if (!response.ok) {
+      const errorText = await response.text()
+      throw new Error(`Metadata upload failed: ${response.status} - ${errorText}`)
+    }
   }
 }
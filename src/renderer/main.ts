@@ -1,13 +1,80 @@
 // 型定義
+interface ScheduleStatus {
+  status: 'active' | 'waiting' | 'outside'
+  until?: string | null
+}
+
+interface ScreenshotEntry {
+  id: string
+  timestamp: string
+  appName: string
+  windowTitle: string
+  filePath: string
+  thumbnailPath: string
+}
+
+interface RedactRegion {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+interface TextSearchResult {
+  id: string
+  snippet: string
+}
+
+interface UploadProgress {
+  batchId: string
+  sentBytes: number
+  totalBytes: number
+}
+
+interface TimelineSegment {
+  app: string
+  title: string
+  start: string
+  end: string
+}
+
+interface TimelineGap {
+  start: string
+  end: string
+  kind: 'idle' | 'lock' | 'suspend' | 'pause'
+}
+
+interface DailyAnalytics {
+  date: string
+  segments: TimelineSegment[]
+  gaps: TimelineGap[]
+  hourly: Array<{
+    hour: number
+    activeSeconds: number
+    idleSeconds: number
+    pausedSeconds: number
+    captures: number
+  }>
+  appTotals: Array<{ app: string; seconds: number; share: number }>
+  totals: {
+    activeSeconds: number
+    idleSeconds: number
+    pausedSeconds: number
+    captures: number
+  }
+}
+
 interface ElectronAPI {
   getConfig: () => Promise<{
-    token: string
-    api_url: string
     subject_name: string
     project_name: string
     support_contact?: string
+    recording_start_date?: string
+    recording_end_date?: string
+    task_labels?: string[]
   } | null>
   getRecordingStatus: () => Promise<boolean>
+  getScheduleStatus: () => Promise<ScheduleStatus>
   getRecordingStats: () => Promise<{
     startTime: string
     endTime: string | null
@@ -24,19 +91,23 @@ interface ElectronAPI {
     totalActiveSeconds: number
     appSummary: Record<string, number>
   }>
-  getScreenshots: () => Promise<Array<{
-    id: string
-    timestamp: string
-    appName: string
-    windowTitle: string
-    filePath: string
-    thumbnailPath: string
-  }>>
+  getTaskState: () => Promise<{ labels: string[]; current: string | null }>
+  setCurrentTask: (label: string | null) => Promise<boolean>
+  getAnalyticsDays: () => Promise<string[]>
+  getDailyAnalytics: (date: string) => Promise<DailyAnalytics | null>
+  getScreenshots: () => Promise<ScreenshotEntry[]>
   deleteScreenshot: (id: string) => Promise<boolean>
+  getScreenshotImage: (id: string, kind: 'screenshot' | 'thumbnail') => Promise<string | null>
+  getOcrStatus: () => Promise<{ enabled: boolean; pending: number }>
+  searchScreenshotText: (query: string) => Promise<TextSearchResult[]>
+  redactScreenshot: (id: string, regions: RedactRegion[]) => Promise<boolean>
   uploadData: () => Promise<{ success: boolean; error?: string }>
   onConfigLoaded: (callback: (data: { subjectName: string; projectName: string }) => void) => void
   onRecordingStatus: (callback: (isRecording: boolean) => void) => void
   onShowUploadScreen: (callback: () => void) => void
+  onShowAnnotateScreen: (callback: () => void) => void
+  onScheduleStatus: (callback: (status: ScheduleStatus) => void) => void
+  onUploadProgress: (callback: (progress: UploadProgress) => void) => void
 }
 
 declare global {
@@ -49,6 +120,9 @@ declare global {
 const screens = {
   main: document.getElementById('main-screen')!,
   upload: document.getElementById('upload-screen')!,
+  redact: document.getElementById('redact-screen')!,
+  dashboard: document.getElementById('dashboard-screen')!,
+  annotate: document.getElementById('annotate-screen')!,
   complete: document.getElementById('complete-screen')!,
   error: document.getElementById('error-screen')!,
 }
@@ -63,6 +137,7 @@ let stats: {
   appSummary: Record<string, number>
 } | null = null
 let supportContact: string | null = null
+let scheduleStatus: ScheduleStatus = { status: 'active' }
 
 // 画面切り替え
 function showScreen(screenId: keyof typeof screens) {
@@ -118,10 +193,14 @@ async function updateStats() {
     for (const [app, seconds] of sortedApps) {
       const item = document.createElement('div')
       item.className = 'usage-item'
-      item.innerHTML = `
-        <span class="usage-app">${app}</span>
-        <span class="usage-time">${formatDuration(seconds)}</span>
-      `
+      // アプリ名はウィンドウから取得した値のため、HTMLとして解釈させない
+      const appName = document.createElement('span')
+      appName.className = 'usage-app'
+      appName.textContent = app
+      const time = document.createElement('span')
+      time.className = 'usage-time'
+      time.textContent = formatDuration(seconds)
+      item.append(appName, time)
       usageList.appendChild(item)
     }
   } catch (error) {
@@ -145,6 +224,532 @@ function updateRecordingStatus(recording: boolean) {
     text.textContent = '\u4e00\u6642\u505c\u6b62\u4e2d'
     pauseBtn.textContent = '\u8a18\u9332\u3092\u518d\u958b'
   }
+
+  // 調査開始前・記録時間外の表示（再開ボタンは無効）
+  ;(pauseBtn as HTMLButtonElement).disabled = scheduleStatus.status !== 'active'
+  if (scheduleStatus.status === 'waiting' && scheduleStatus.until) {
+    text.textContent = `${formatDateTime(scheduleStatus.until)} \u307e\u3067\u5f85\u6a5f\u4e2d`
+  } else if (scheduleStatus.status === 'outside') {
+    text.textContent = scheduleStatus.until
+      ? `\u8a18\u9332\u6642\u9593\u5916\uff08${formatDateTime(scheduleStatus.until)} \u304b\u3089\u8a18\u9332\uff09`
+      : '\u8a18\u9332\u6642\u9593\u5916'
+  }
+}
+
+// スケジュール状態を更新
+function updateScheduleStatus(status: ScheduleStatus) {
+  scheduleStatus = status
+  updateRecordingStatus(isRecording)
+}
+
+// レビュー画面の状態
+let reviewScreenshots: ScreenshotEntry[] = []
+const selectedIds = new Set<string>()
+const thumbnailCache = new Map<string, string>()
+let thumbnailObserver: IntersectionObserver | null = null
+let redactTarget: { id: string; boxes: RedactRegion[] } | null = null
+// 画面内の文字で検索した結果（記録ID → 一致箇所の抜粋。検索していなければnull）
+let textMatches: Map<string, string> | null = null
+let textSearchTimer: ReturnType<typeof setTimeout> | null = null
+
+// 絞り込み条件に一致するスクリーンショット
+function getFilteredScreenshots(): ScreenshotEntry[] {
+  const app = (document.getElementById('filter-app') as HTMLSelectElement).value
+  const from = (document.getElementById('filter-from') as HTMLInputElement).value
+  const to = (document.getElementById('filter-to') as HTMLInputElement).value
+
+  // 日時（端末の時刻）で比較し、終了は指定した分の終わりまで含める
+  const fromMs = from ? new Date(from).getTime() : null
+  const toMs = to ? new Date(to).getTime() + 60 * 1000 : null
+
+  return reviewScreenshots.filter((s) => {
+    if (textMatches && !textMatches.has(s.id)) return false
+    if (app && s.appName !== app) return false
+    const time = new Date(s.timestamp).getTime()
+    if (fromMs !== null && time < fromMs) return false
+    if (toMs !== null && time >= toMs) return false
+    return true
+  })
+}
+
+// アプリの絞り込み候補を更新
+function updateAppFilterOptions() {
+  const select = document.getElementById('filter-app') as HTMLSelectElement
+  const current = select.value
+  const apps = Array.from(new Set(reviewScreenshots.map((s) => s.appName))).sort()
+
+  select.length = 1
+  for (const app of apps) {
+    const option = document.createElement('option')
+    option.value = app
+    option.textContent = app
+    select.appendChild(option)
+  }
+  select.value = apps.includes(current) ? current : ''
+}
+
+// サムネイルを読み込む（読み込み済みはキャッシュを使う）
+async function loadThumbnail(img: HTMLImageElement, id: string) {
+  let url = thumbnailCache.get(id)
+  if (!url) {
+    url = (await window.electronAPI.getScreenshotImage(id, 'thumbnail')) ?? undefined
+    if (url) {
+      thumbnailCache.set(id, url)
+    }
+  }
+  if (url) {
+    img.src = url
+  }
+}
+
+// 選択状態と件数表示を更新
+function updateReviewToolbar() {
+  const filtered = getFilteredScreenshots()
+  const selectAll = document.getElementById('select-all') as HTMLInputElement
+  const deleteBtn = document.getElementById('btn-delete-selected') as HTMLButtonElement
+
+  selectAll.checked = filtered.length > 0 && filtered.every((s) => selectedIds.has(s.id))
+  deleteBtn.disabled = selectedIds.size === 0
+  deleteBtn.textContent = selectedIds.size > 0 ? `\u9078\u629e\u3057\u305f${selectedIds.size}\u4ef6\u3092\u524a\u9664` : '\u9078\u629e\u3092\u524a\u9664'
+
+  document.getElementById('summary-screenshots')!.textContent = `${reviewScreenshots.length}\u679a`
+  document.getElementById('file-count')!.textContent =
+    filtered.length === reviewScreenshots.length
+      ? `${reviewScreenshots.length}\u4ef6\u306e\u30b9\u30af\u30ea\u30fc\u30f3\u30b7\u30e7\u30c3\u30c8\u3092\u9001\u4fe1\u3057\u307e\u3059`
+      : `${reviewScreenshots.length}\u4ef6\u306e\u30b9\u30af\u30ea\u30fc\u30f3\u30b7\u30e7\u30c3\u30c8\u3092\u9001\u4fe1\u3057\u307e\u3059\uff08\u8868\u793a\u4e2d ${filtered.length}\u4ef6\uff09`
+}
+
+function setSelected(id: string, selected: boolean) {
+  if (selected) {
+    selectedIds.add(id)
+  } else {
+    selectedIds.delete(id)
+  }
+
+  const item = document.querySelector<HTMLElement>(`.thumb-item[data-id="${id}"]`)
+  if (item) {
+    item.classList.toggle('selected', selected)
+    item.querySelector<HTMLInputElement>('input[type="checkbox"]')!.checked = selected
+  }
+}
+
+// サムネイル一覧を描画（画像は表示範囲に入ってから読み込む）
+function renderReviewList() {
+  const fileList = document.getElementById('file-list')!
+  fileList.innerHTML = ''
+
+  thumbnailObserver?.disconnect()
+  thumbnailObserver = new IntersectionObserver(
+    (entries) => {
+      for (const entry of entries) {
+        if (!entry.isIntersecting) continue
+        const img = entry.target as HTMLImageElement
+        thumbnailObserver?.unobserve(img)
+        loadThumbnail(img, img.dataset.id!)
+      }
+    },
+    { root: fileList }
+  )
+
+  for (const screenshot of getFilteredScreenshots()) {
+    const item = document.createElement('div')
+    item.className = 'file-item thumb-item'
+    item.dataset.id = screenshot.id
+    item.classList.toggle('selected', selectedIds.has(screenshot.id))
+
+    const img = document.createElement('img')
+    img.className = 'thumb-image'
+    img.alt = ''
+    img.dataset.id = screenshot.id
+    img.title = screenshot.windowTitle
+    img.addEventListener('click', () => {
+      setSelected(screenshot.id, !selectedIds.has(screenshot.id))
+      updateReviewToolbar()
+    })
+    thumbnailObserver.observe(img)
+
+    const meta = document.createElement('div')
+    meta.className = 'thumb-meta'
+
+    const checkbox = document.createElement('input')
+    checkbox.type = 'checkbox'
+    checkbox.checked = selectedIds.has(screenshot.id)
+    checkbox.addEventListener('change', () => {
+      setSelected(screenshot.id, checkbox.checked)
+      updateReviewToolbar()
+    })
+
+    const time = document.createElement('span')
+    time.className = 'file-time'
+    time.textContent = formatFileEntry(screenshot.timestamp)
+
+    const appLabel = document.createElement('span')
+    appLabel.className = 'file-name'
+    appLabel.textContent = screenshot.appName
+    appLabel.title = screenshot.windowTitle
+
+    const editBtn = document.createElement('button')
+    editBtn.className = 'thumb-edit'
+    editBtn.textContent = '\u9ed2\u5857\u308a'
+    editBtn.addEventListener('click', () => {
+      openRedactEditor(screenshot.id)
+    })
+
+    meta.append(checkbox, time, appLabel, editBtn)
+    item.append(img, meta)
+
+    const snippet = textMatches?.get(screenshot.id)
+    if (snippet) {
+      const snippetLabel = document.createElement('div')
+      snippetLabel.className = 'thumb-snippet'
+      snippetLabel.textContent = snippet
+      item.appendChild(snippetLabel)
+    }
+    fileList.appendChild(item)
+  }
+
+  updateReviewToolbar()
+}
+
+// 画面内の文字で検索（索引はメインプロセスが端末内で作成）
+async function updateTextSearch() {
+  const query = (document.getElementById('filter-text') as HTMLInputElement).value.trim()
+  if (query) {
+    const results = await window.electronAPI.searchScreenshotText(query)
+    textMatches = new Map(results.map((r) => [r.id, r.snippet]))
+  } else {
+    textMatches = null
+  }
+  renderReviewList()
+}
+
+// 文字認識が有効な場合のみ検索欄を表示
+async function updateTextSearchStatus() {
+  const status = await window.electronAPI.getOcrStatus()
+  document.getElementById('review-search')!.style.display = status.enabled ? 'flex' : 'none'
+  document.getElementById('search-status')!.textContent =
+    status.pending > 0 ? `\u6587\u5b57\u3092\u8a8d\u8b58\u4e2d\uff08\u6b8b\u308a${status.pending}\u679a\uff09` : ''
+}
+
+// スクリーンショット一覧を再取得して描画
+async function refreshReview() {
+  reviewScreenshots = await window.electronAPI.getScreenshots()
+  for (const id of Array.from(selectedIds)) {
+    if (!reviewScreenshots.some((s) => s.id === id)) {
+      selectedIds.delete(id)
+    }
+  }
+  updateAppFilterOptions()
+  renderReviewList()
+}
+
+// 選択したスクリーンショットを削除
+async function deleteSelectedScreenshots() {
+  const count = selectedIds.size
+  if (count === 0) return
+  if (!window.confirm(`\u9078\u629e\u3057\u305f${count}\u4ef6\u306e\u30b9\u30af\u30ea\u30fc\u30f3\u30b7\u30e7\u30c3\u30c8\u3092\u524a\u9664\u3057\u307e\u3059\u304b\uff1f\n\u3053\u306e\u64cd\u4f5c\u306f\u53d6\u308a\u6d88\u305b\u307e\u305b\u3093\u3002`)) return
+
+  for (const id of Array.from(selectedIds)) {
+    await window.electronAPI.deleteScreenshot(id)
+    thumbnailCache.delete(id)
+  }
+  selectedIds.clear()
+  await refreshReview()
+}
+
+// 黒塗り編集画面を開く
+async function openRedactEditor(id: string) {
+  const url = await window.electronAPI.getScreenshotImage(id, 'screenshot')
+  if (!url) return
+
+  redactTarget = { id, boxes: [] }
+  ;(document.getElementById('redact-image') as HTMLImageElement).src = url
+  clearRedactBoxes()
+  showScreen('redact')
+}
+
+function clearRedactBoxes() {
+  document.querySelectorAll('#redact-canvas .redact-box').forEach((el) => el.remove())
+  if (redactTarget) {
+    redactTarget.boxes = []
+  }
+}
+
+function closeRedactEditor() {
+  redactTarget = null
+  ;(document.getElementById('redact-image') as HTMLImageElement).removeAttribute('src')
+  clearRedactBoxes()
+  showScreen('upload')
+}
+
+// 黒塗りを保存（画像とサムネイルはメインプロセスで上書き）
+async function saveRedaction() {
+  if (!redactTarget) return
+
+  const { id, boxes } = redactTarget
+  if (boxes.length > 0) {
+    const ok = await window.electronAPI.redactScreenshot(id, boxes)
+    if (!ok) {
+      window.alert('\u9ed2\u5857\u308a\u306e\u4fdd\u5b58\u306b\u5931\u6557\u3057\u307e\u3057\u305f')
+      return
+    }
+    thumbnailCache.delete(id)
+  }
+
+  closeRedactEditor()
+  renderReviewList()
+}
+
+// ドラッグで黒塗り範囲を指定（画像に対する割合で保持）
+function setupRedactCanvas() {
+  const canvas = document.getElementById('redact-canvas')!
+  let start: { x: number; y: number } | null = null
+  let current: HTMLDivElement | null = null
+
+  const toRelative = (event: MouseEvent) => {
+    const rect = canvas.getBoundingClientRect()
+    const clamp = (v: number) => Math.min(1, Math.max(0, v))
+    return {
+      x: clamp((event.clientX - rect.left) / rect.width),
+      y: clamp((event.clientY - rect.top) / rect.height),
+    }
+  }
+
+  const toRegion = (a: { x: number; y: number }, b: { x: number; y: number }): RedactRegion => ({
+    x: Math.min(a.x, b.x),
+    y: Math.min(a.y, b.y),
+    width: Math.abs(a.x - b.x),
+    height: Math.abs(a.y - b.y),
+  })
+
+  canvas.addEventListener('mousedown', (event) => {
+    if (!redactTarget) return
+    event.preventDefault()
+    start = toRelative(event)
+    current = document.createElement('div')
+    current.className = 'redact-box'
+    canvas.appendChild(current)
+  })
+
+  window.addEventListener('mousemove', (event) => {
+    if (!start || !current) return
+    const region = toRegion(start, toRelative(event))
+    current.style.left = `${region.x * 100}%`
+    current.style.top = `${region.y * 100}%`
+    current.style.width = `${region.width * 100}%`
+    current.style.height = `${region.height * 100}%`
+  })
+
+  window.addEventListener('mouseup', (event) => {
+    if (!start || !current) return
+    const region = toRegion(start, toRelative(event))
+    // クリックだけの極小範囲は無視
+    if (region.width > 0.005 && region.height > 0.005) {
+      redactTarget?.boxes.push(region)
+    } else {
+      current.remove()
+    }
+    start = null
+    current = null
+  })
+}
+
+// 作業のタグを付ける画面（閉じたら元の画面に戻る）
+let screenBeforeAnnotate: keyof typeof screens = 'main'
+
+function updateCurrentTask(current: string | null) {
+  document.getElementById('current-task')!.textContent = current ? `\u4f5c\u696d\u4e2d: ${current}` : ''
+}
+
+async function selectTask(label: string | null) {
+  const ok = await window.electronAPI.setCurrentTask(label)
+  if (ok) {
+    updateCurrentTask(label)
+  }
+  showScreen(screenBeforeAnnotate)
+}
+
+async function showAnnotateScreen() {
+  const state = await window.electronAPI.getTaskState()
+  if (state.labels.length === 0) return
+
+  const active = (Object.keys(screens) as Array<keyof typeof screens>).find((key) =>
+    screens[key].classList.contains('active')
+  )
+  if (active && active !== 'annotate') {
+    screenBeforeAnnotate = active
+  }
+
+  const taskList = document.getElementById('task-list')!
+  taskList.innerHTML = ''
+  for (const label of state.labels) {
+    const button = document.createElement('button')
+    button.className = 'task-option'
+    button.classList.toggle('selected', label === state.current)
+    button.textContent = label
+    button.addEventListener('click', () => {
+      selectTask(label)
+    })
+    taskList.appendChild(button)
+  }
+  ;(document.getElementById('btn-task-clear') as HTMLButtonElement).disabled =
+    state.current === null
+
+  updateCurrentTask(state.current)
+  showScreen('annotate')
+}
+
+// 記録の詳細（メインプロセスが端末内で集計した結果を表示）
+const DAY_MS = 24 * 60 * 60 * 1000
+const GAP_LABELS: Record<TimelineGap['kind'], string> = {
+  idle: '\u96e2\u5e2d',
+  lock: '\u753b\u9762\u30ed\u30c3\u30af',
+  suspend: '\u30b9\u30ea\u30fc\u30d7',
+  pause: '\u4e00\u6642\u505c\u6b62',
+}
+
+// アプリ名から色を決める（同じアプリは常に同じ色）
+function appColor(app: string): string {
+  let hash = 0
+  for (let i = 0; i < app.length; i++) {
+    hash = (hash * 31 + app.charCodeAt(i)) | 0
+  }
+  return `hsl(${Math.abs(hash) % 360}, 60%, 55%)`
+}
+
+// YYYY-MM-DD をローカル0時の時刻に
+function parseDateKey(date: string): number {
+  const [year, month, day] = date.split('-').map(Number)
+  return new Date(year, month - 1, day).getTime()
+}
+
+function formatDateKey(date: string): string {
+  const [, month, day] = date.split('-').map(Number)
+  return `${month}\u6708${day}\u65e5`
+}
+
+// 1日の中の位置（%）
+function dayPercent(isoString: string, dayStart: number): number {
+  return Math.min(100, Math.max(0, ((new Date(isoString).getTime() - dayStart) / DAY_MS) * 100))
+}
+
+function createTimelineBlock(
+  className: string,
+  start: string,
+  end: string,
+  dayStart: number,
+  title: string
+): HTMLDivElement {
+  const left = dayPercent(start, dayStart)
+  const block = document.createElement('div')
+  block.className = className
+  block.style.left = `${left}%`
+  block.style.width = `${Math.max(dayPercent(end, dayStart) - left, 0.1)}%`
+  block.title = `${formatFileEntry(start).slice(0, 5)}\u301c${formatFileEntry(end).slice(0, 5)} ${title}`
+  return block
+}
+
+async function renderDashboard(date: string) {
+  const analytics = await window.electronAPI.getDailyAnalytics(date)
+  if (!analytics) return
+
+  const dayStart = parseDateKey(date)
+  const { totals } = analytics
+  document.getElementById('dashboard-summary')!.textContent =
+    `\u4f5c\u696d ${formatDuration(totals.activeSeconds)} / \u96e2\u5e2d ${formatDuration(totals.idleSeconds)} / \u4e00\u6642\u505c\u6b62 ${formatDuration(totals.pausedSeconds)} / ${totals.captures}\u679a`
+
+  // タイムライン
+  const timeline = document.getElementById('dashboard-timeline')!
+  timeline.innerHTML = ''
+  for (const segment of analytics.segments) {
+    const block = createTimelineBlock(
+      'timeline-segment',
+      segment.start,
+      segment.end,
+      dayStart,
+      `${segment.app} - ${segment.title}`
+    )
+    block.style.background = appColor(segment.app)
+    timeline.appendChild(block)
+  }
+  for (const gap of analytics.gaps) {
+    timeline.appendChild(
+      createTimelineBlock(
+        `timeline-gap gap-${gap.kind}`,
+        gap.start,
+        gap.end,
+        dayStart,
+        GAP_LABELS[gap.kind]
+      )
+    )
+  }
+
+  // 時間帯別（作業時間の割合で濃さを変える）
+  const heatmap = document.getElementById('dashboard-heatmap')!
+  heatmap.innerHTML = ''
+  for (const hour of analytics.hourly) {
+    const cell = document.createElement('div')
+    cell.className = 'heatmap-cell'
+    const ratio = Math.min(1, hour.activeSeconds / 3600)
+    cell.style.background =
+      ratio > 0 ? `rgba(37, 99, 235, ${0.15 + ratio * 0.85})` : 'var(--gray-100)'
+    cell.classList.toggle('paused', hour.pausedSeconds > 0 && hour.activeSeconds === 0)
+    cell.title = `${hour.hour}\u6642\u53f0 \u4f5c\u696d ${formatDuration(hour.activeSeconds)} / \u96e2\u5e2d ${formatDuration(hour.idleSeconds)} / \u4e00\u6642\u505c\u6b62 ${formatDuration(hour.pausedSeconds)} / ${hour.captures}\u679a`
+    heatmap.appendChild(cell)
+  }
+
+  // アプリ別
+  const appList = document.getElementById('dashboard-apps')!
+  appList.innerHTML = ''
+  if (analytics.appTotals.length === 0) {
+    const empty = document.createElement('p')
+    empty.className = 'dashboard-empty'
+    empty.textContent = '\u3053\u306e\u65e5\u306e\u4f5c\u696d\u8a18\u9332\u306f\u3042\u308a\u307e\u305b\u3093'
+    appList.appendChild(empty)
+  }
+  for (const total of analytics.appTotals) {
+    const item = document.createElement('div')
+    item.className = 'usage-item'
+
+    const swatch = document.createElement('span')
+    swatch.className = 'app-swatch'
+    swatch.style.background = appColor(total.app)
+
+    const name = document.createElement('span')
+    name.className = 'usage-app'
+    name.textContent = total.app
+
+    const share = document.createElement('span')
+    share.className = 'usage-share'
+    share.textContent = `${Math.round(total.share * 100)}%`
+
+    const time = document.createElement('span')
+    time.className = 'usage-time'
+    time.textContent = formatDuration(total.seconds)
+
+    item.append(swatch, name, share, time)
+    appList.appendChild(item)
+  }
+}
+
+// 記録の詳細画面を表示（最新の日を選択）
+async function showDashboard() {
+  const days = await window.electronAPI.getAnalyticsDays()
+  const select = document.getElementById('dashboard-date') as HTMLSelectElement
+  select.innerHTML = ''
+  for (const day of days) {
+    const option = document.createElement('option')
+    option.value = day
+    option.textContent = formatDateKey(day)
+    select.appendChild(option)
+  }
+
+  showScreen('dashboard')
+  if (days.length > 0) {
+    await renderDashboard(days[0])
+  } else {
+    document.getElementById('dashboard-summary')!.textContent = '\u307e\u3060\u8a18\u9332\u304c\u3042\u308a\u307e\u305b\u3093'
+  }
 }
 
 // アップロード画面を表示
@@ -158,27 +763,24 @@ async function showUploadScreen() {
   document.getElementById('summary-screenshots')!.textContent = `${stats.totalScreenshots}\u679a`
   document.getElementById('summary-time')!.textContent = formatDuration(stats.totalActiveSeconds)
 
-  // ファイルリスト（軽量表示: 画像は読み込まない）
-  const screenshots = await window.electronAPI.getScreenshots()
-  const fileList = document.getElementById('file-list')!
-  fileList.innerHTML = ''
-
-  for (const screenshot of screenshots) {
-    const item = document.createElement('div')
-    item.className = 'file-item'
-    item.innerHTML = `
-      <span class="file-time">${formatFileEntry(screenshot.timestamp)}</span>
-      <span class="file-name">${screenshot.filePath.split('/').pop() || screenshot.filePath}</span>
-    `
-    fileList.appendChild(item)
-  }
-
-  document.getElementById('file-count')!.textContent =
-    `${screenshots.length}\u4ef6\u306e\u30b9\u30af\u30ea\u30fc\u30f3\u30b7\u30e7\u30c3\u30c8\u3092\u9001\u4fe1\u3057\u307e\u3059`
+  // サムネイル一覧（確認・絞り込み・削除・黒塗り）
+  selectedIds.clear()
+  textMatches = null
+  ;(document.getElementById('filter-text') as HTMLInputElement).value = ''
+  await updateTextSearchStatus()
+  await refreshReview()
 
   showScreen('upload')
 }
 
+// 送信の進捗をプログレスバーに反映
+function updateUploadProgress(progress: UploadProgress) {
+  if (progress.totalBytes <= 0) return
+  const percent = Math.min(100, Math.floor((progress.sentBytes / progress.totalBytes) * 100))
+  document.getElementById('progress-fill')!.style.width = `${percent}%`
+  document.getElementById('progress-text')!.textContent = `送信中... ${percent}%`
+}
+
 // アップロード実行
 async function uploadData() {
   const uploadBtn = document.getElementById('btn-upload') as HTMLButtonElement
@@ -188,13 +790,11 @@ async function uploadData() {
 
   uploadBtn.disabled = true
   progressDiv.style.display = 'block'
-  progressFill.style.width = '30%'
+  progressFill.style.width = '0%'
   progressText.textContent = '\u30c7\u30fc\u30bf\u3092\u6e96\u5099\u4e2d...'
 
   try {
-    progressFill.style.width = '60%'
-    progressText.textContent = '\u9001\u4fe1\u4e2d...'
-
+    // 送信中の進捗は upload-progress イベントで更新
     const result = await window.electronAPI.uploadData()
 
     if (result.success) {
@@ -234,6 +834,18 @@ async function init() {
     showUploadScreen()
   })
 
+  window.electronAPI.onShowAnnotateScreen(() => {
+    showAnnotateScreen()
+  })
+
+  window.electronAPI.onScheduleStatus((status) => {
+    updateScheduleStatus(status)
+  })
+
+  window.electronAPI.onUploadProgress((progress) => {
+    updateUploadProgress(progress)
+  })
+
   // ボタンイベント
   document.getElementById('btn-pause')!.addEventListener('click', () => {
     if (isRecording) {
@@ -249,6 +861,72 @@ async function init() {
     showUploadScreen()
   })
 
+  // 作業のタグ
+  document.getElementById('btn-annotate')!.addEventListener('click', () => {
+    showAnnotateScreen()
+  })
+
+  document.getElementById('btn-task-clear')!.addEventListener('click', () => {
+    selectTask(null)
+  })
+
+  document.getElementById('btn-annotate-cancel')!.addEventListener('click', () => {
+    showScreen(screenBeforeAnnotate)
+  })
+
+  // 記録の詳細
+  document.getElementById('btn-dashboard')!.addEventListener('click', () => {
+    showDashboard()
+  })
+
+  document.getElementById('dashboard-date')!.addEventListener('change', (event) => {
+    renderDashboard((event.target as HTMLSelectElement).value)
+  })
+
+  document.getElementById('btn-dashboard-back')!.addEventListener('click', () => {
+    showScreen('main')
+  })
+
+  // レビュー操作
+  for (const filterId of ['filter-app', 'filter-from', 'filter-to']) {
+    document.getElementById(filterId)!.addEventListener('change', () => {
+      renderReviewList()
+    })
+  }
+
+  document.getElementById('filter-text')!.addEventListener('input', () => {
+    if (textSearchTimer) {
+      clearTimeout(textSearchTimer)
+    }
+    textSearchTimer = setTimeout(() => {
+      updateTextSearch()
+      updateTextSearchStatus()
+    }, 300)
+  })
+
+  document.getElementById('select-all')!.addEventListener('change', (event) => {
+    const checked = (event.target as HTMLInputElement).checked
+    for (const s of getFilteredScreenshots()) {
+      setSelected(s.id, checked)
+    }
+    updateReviewToolbar()
+  })
+
+  document.getElementById('btn-delete-selected')!.addEventListener('click', () => {
+    deleteSelectedScreenshots()
+  })
+
+  setupRedactCanvas()
+  document.getElementById('btn-redact-clear')!.addEventListener('click', () => {
+    clearRedactBoxes()
+  })
+  document.getElementById('btn-redact-cancel')!.addEventListener('click', () => {
+    closeRedactEditor()
+  })
+  document.getElementById('btn-redact-save')!.addEventListener('click', () => {
+    saveRedaction()
+  })
+
   document.getElementById('btn-upload')!.addEventListener('click', () => {
     uploadData()
   })
@@ -271,6 +949,14 @@ async function init() {
     document.getElementById('subject-name')!.textContent = `${config.subject_name} \u69d8`
   }
 
+  const taskState = await window.electronAPI.getTaskState()
+  document.getElementById('btn-annotate')!.style.display =
+    taskState.labels.length > 0 ? 'block' : 'none'
+  updateCurrentTask(taskState.current)
+
+  updateScheduleStatus(await window.electronAPI.getScheduleStatus())
+  updateRecordingStatus(await window.electronAPI.getRecordingStatus())
+
   // 統計情報を定期更新
   updateStats()
   setInterval(updateStats, 10000)
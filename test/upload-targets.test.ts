@@ -0,0 +1,561 @@
+import { after, before, describe, it } from 'node:test'
+import * as assert from 'node:assert/strict'
+import * as fs from 'fs'
+import * as http from 'http'
+import * as os from 'os'
+import * as path from 'path'
+import * as crypto from 'crypto'
+import { AddressInfo } from 'net'
+import { ApiUploader } from '../src/main/api-uploader'
+import { GoogleDriveUploader } from '../src/main/google-drive-uploader'
+import {
+  BrokeredTarget,
+  LocalFolderTarget,
+  S3PresignedTarget,
+  WebDavTarget,
+} from '../src/main/upload-targets'
+import type { OutboxBatch } from '../src/main/upload-outbox'
+import type { FetchFn, UploadTargetContext } from '../src/main/upload-targets'
+
+/**
+ * 各送信先の送信を、ローカルの代替サーバーで確認する
+ * Electron の net は使えないため、Node.js の fetch を渡す
+ */
+
+interface ReceivedRequest {
+  method: string
+  url: string
+  headers: http.IncomingHttpHeaders
+  body: Buffer
+}
+
+type Handler = (request: ReceivedRequest, response: http.ServerResponse) => void
+
+// 受け取ったリクエストを記録し、handler で応答する代替サーバー
+async function startServer(
+  handler: Handler
+): Promise<{ baseUrl: string; requests: ReceivedRequest[]; close: () => Promise<void> }> {
+  const requests: ReceivedRequest[] = []
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = []
+    req.on('data', (chunk: Buffer) => chunks.push(chunk))
+    req.on('end', () => {
+      const request = {
+        method: req.method ?? '',
+        url: req.url ?? '',
+        headers: req.headers,
+        body: Buffer.concat(chunks),
+      }
+      requests.push(request)
+      handler(request, res)
+    })
+  })
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+  return {
+    baseUrl: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  }
+}
+
+function createBatch(): OutboxBatch {
+  return {
+    id: 'batch-1',
+    createdAt: new Date().toISOString(),
+    dataDir: '',
+    zipFileName: '2026-10-19_09-00-00.zip',
+    metadata: {},
+    files: [],
+    screenshotsCount: 0,
+    attempts: 0,
+    nextAttemptAt: new Date().toISOString(),
+    lastError: null,
+  }
+}
+
+// Google のAPIへのリクエストを代替サーバーに向ける fetch
+function redirectGoogle(baseUrl: string): FetchFn {
+  return (url, init) => {
+    const target = new URL(url)
+    if (!target.hostname.endsWith('googleapis.com')) return fetch(url, init)
+    return fetch(`${baseUrl}${target.pathname}${target.search}`, init)
+  }
+}
+
+// Content-Range ヘッダー（bytes start-end/size）の範囲
+function parseContentRange(header: string | string[] | undefined): [number, number] {
+  const match = String(header).match(/^bytes (\d+)-(\d+)\/\d+$/)
+  assert.ok(match, `unexpected Content-Range: ${header}`)
+  return [parseInt(match[1], 10), parseInt(match[2], 10)]
+}
+
+function sha256(data: Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex')
+}
+
+function createContext(progress: Array<[number, number]>): UploadTargetContext {
+  return {
+    projectName: 'プロジェクト',
+    subjectName: 'subject/01',
+    metadata: {},
+    persist: () => {},
+    onProgress: (sent, total) => progress.push([sent, total]),
+  }
+}
+
+describe('upload targets', () => {
+  let tmpDir: string
+  let zipPath: string
+  let zipData: Buffer
+
+  before(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'upload-targets-'))
+    zipPath = path.join(tmpDir, 'bundle.zip')
+    // ストリームで何回かに分けて読まれる大きさ
+    zipData = Buffer.alloc(3 * 1024 * 1024 + 17, 7)
+    fs.writeFileSync(zipPath, zipData)
+  })
+
+  after(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true })
+  })
+
+  it('Google Drive: creates the folders and uploads through a resumable session', async () => {
+    const server = await startServer((request, response) => {
+      const { pathname } = new URL(request.url, server.baseUrl)
+      response.setHeader('Content-Type', 'application/json')
+      if (pathname === '/token') {
+        response.end(JSON.stringify({ access_token: 'access-1', expires_in: 3600 }))
+      } else if (pathname === '/drive/v3/files' && request.method === 'GET') {
+        response.end(JSON.stringify({ files: [] }))
+      } else if (pathname === '/drive/v3/files') {
+        const { name } = JSON.parse(request.body.toString()) as { name: string }
+        response.end(JSON.stringify({ id: `folder-${name}` }))
+      } else if (pathname === '/upload/drive/v3/files') {
+        response.setHeader('Location', `${server.baseUrl}/session/1`)
+        response.end()
+      } else if (pathname === '/session/1' && request.body.length === 0) {
+        // 送信済み範囲の問い合わせ（まだ何も受け取っていない）
+        response.statusCode = 308
+        response.end()
+      } else if (pathname === '/session/1') {
+        response.end(JSON.stringify({ id: 'file-1', webViewLink: 'https://drive/file-1' }))
+      } else {
+        response.statusCode = 404
+        response.end()
+      }
+    })
+
+    try {
+      const batch = createBatch()
+      const target = new GoogleDriveUploader(
+        { client_id: 'client', client_secret: 'secret', refresh_token: 'refresh' },
+        'root-folder',
+        redirectGoogle(server.baseUrl)
+      )
+      const result = await target.upload(batch, zipPath, createContext([]))
+
+      const [token, ...rest] = server.requests
+      const form = new URLSearchParams(token.body.toString())
+      assert.equal(form.get('client_secret'), 'secret')
+      assert.equal(form.get('refresh_token'), 'refresh')
+      assert.equal(form.get('grant_type'), 'refresh_token')
+
+      assert.deepEqual(
+        rest.map((r) => `${r.method} ${new URL(r.url, server.baseUrl).pathname}`),
+        [
+          'GET /drive/v3/files',
+          'POST /drive/v3/files',
+          'GET /drive/v3/files',
+          'POST /drive/v3/files',
+          'POST /upload/drive/v3/files',
+          'PUT /session/1',
+          'PUT /session/1',
+        ]
+      )
+      const init = rest[4]
+      assert.equal(init.headers.authorization, 'Bearer access-1')
+      assert.deepEqual(JSON.parse(init.body.toString()), {
+        name: '2026-10-19_09-00-00.zip',
+        parents: ['folder-subject/01'],
+      })
+
+      const chunk = rest[6]
+      assert.equal(chunk.headers['content-range'], `bytes 0-${zipData.length - 1}/${zipData.length}`)
+      assert.ok(chunk.body.equals(zipData))
+
+      // 再開用にセッションURIを記録する
+      assert.deepEqual(batch.uploadSession, { uri: `${server.baseUrl}/session/1` })
+      assert.deepEqual(result.remote, {
+        google_drive_file_id: 'file-1',
+        google_drive_link: 'https://drive/file-1',
+      })
+    } finally {
+      await server.close()
+    }
+  })
+
+  it('Google Drive: resumes a saved session from the acknowledged offset', async () => {
+    const acknowledged = 1024 * 1024
+    const server = await startServer((request, response) => {
+      if (request.body.length === 0) {
+        response.statusCode = 308
+        response.setHeader('Range', `bytes=0-${acknowledged - 1}`)
+        response.end()
+        return
+      }
+      response.setHeader('Content-Type', 'application/json')
+      response.end(JSON.stringify({ id: 'file-1' }))
+    })
+
+    try {
+      const batch = createBatch()
+      batch.uploadSession = { uri: `${server.baseUrl}/session/1` }
+      const target = new GoogleDriveUploader(
+        { client_id: 'client', client_secret: 'secret', refresh_token: 'refresh' },
+        'root-folder',
+        redirectGoogle(server.baseUrl)
+      )
+      await target.upload(batch, zipPath, createContext([]))
+
+      // トークンの取得やフォルダの作成はせず、続きだけを送る
+      assert.equal(server.requests.length, 2)
+      const [query, chunk] = server.requests
+      assert.equal(query.headers['content-range'], `bytes */${zipData.length}`)
+      assert.deepEqual(parseContentRange(chunk.headers['content-range']), [
+        acknowledged,
+        zipData.length - 1,
+      ])
+      assert.ok(chunk.body.equals(zipData.subarray(acknowledged)))
+    } finally {
+      await server.close()
+    }
+  })
+
+  it('API: uploads the file in chunks and completes the upload', async () => {
+    const server = await startServer((request, response) => {
+      response.setHeader('Content-Type', 'application/json')
+      if (request.method === 'POST' && request.url === '/api/recorder/upload') {
+        response.end(JSON.stringify({ upload_id: 'upload/1', offset: 0 }))
+      } else if (request.method === 'PUT') {
+        const [, end] = parseContentRange(request.headers['content-range'])
+        response.end(JSON.stringify({ offset: end + 1 }))
+      } else if (request.url === '/api/recorder/upload/upload%2F1/complete') {
+        response.end(JSON.stringify({ success: true, message: 'received' }))
+      } else {
+        response.statusCode = 404
+        response.end()
+      }
+    })
+
+    try {
+      const batch = createBatch()
+      const target = new ApiUploader(server.baseUrl, 'token-1', fetch)
+      const context = { ...createContext([]), metadata: { version: 2 } }
+      const result = await target.upload(batch, zipPath, context)
+
+      const [init, chunk, complete] = server.requests
+      assert.equal(init.headers['x-subject-token'], 'token-1')
+      assert.deepEqual(JSON.parse(init.body.toString()), {
+        file_name: '2026-10-19_09-00-00.zip',
+        size: zipData.length,
+        sha256: sha256(zipData),
+        metadata: { version: 2 },
+      })
+      assert.equal(chunk.url, '/api/recorder/upload/upload%2F1')
+      assert.equal(chunk.headers['x-chunk-sha256'], sha256(zipData))
+      assert.ok(chunk.body.equals(zipData))
+      assert.equal(complete.method, 'POST')
+      assert.equal(server.requests.length, 3)
+
+      assert.equal(batch.apiUploadId, 'upload/1')
+      assert.equal(result.message, 'received')
+    } finally {
+      await server.close()
+    }
+  })
+
+  it('API: resumes from the offset the server acknowledged', async () => {
+    const acknowledged = 2 * 1024 * 1024
+    const server = await startServer((request, response) => {
+      response.setHeader('Content-Type', 'application/json')
+      if (request.method === 'GET') {
+        response.end(JSON.stringify({ offset: acknowledged }))
+      } else if (request.method === 'PUT') {
+        const [, end] = parseContentRange(request.headers['content-range'])
+        response.end(JSON.stringify({ offset: end + 1 }))
+      } else {
+        response.end(JSON.stringify({ success: true, message: 'received' }))
+      }
+    })
+
+    try {
+      const batch = createBatch()
+      batch.apiUploadId = 'upload-1'
+      const target = new ApiUploader(server.baseUrl, 'token-1', fetch)
+      await target.upload(batch, zipPath, createContext([]))
+
+      assert.deepEqual(
+        server.requests.map((r) => r.method),
+        ['GET', 'PUT', 'POST']
+      )
+      const chunk = server.requests[1]
+      assert.deepEqual(parseContentRange(chunk.headers['content-range']), [
+        acknowledged,
+        zipData.length - 1,
+      ])
+      assert.ok(chunk.body.equals(zipData.subarray(acknowledged)))
+    } finally {
+      await server.close()
+    }
+  })
+
+  it('API: does not resume from an offset beyond the file', async () => {
+    const server = await startServer((_request, response) => {
+      response.setHeader('Content-Type', 'application/json')
+      response.end(JSON.stringify({ offset: zipData.length + 1 }))
+    })
+
+    try {
+      const batch = createBatch()
+      batch.apiUploadId = 'upload-1'
+      const target = new ApiUploader(server.baseUrl, 'token-1', fetch)
+      await assert.rejects(
+        target.upload(batch, zipPath, createContext([])),
+        /Upload returned an invalid offset/
+      )
+      assert.deepEqual(
+        server.requests.map((r) => r.method),
+        ['GET']
+      )
+    } finally {
+      await server.close()
+    }
+  })
+
+  it('API: fails when the server does not advance the offset', async () => {
+    const server = await startServer((request, response) => {
+      response.setHeader('Content-Type', 'application/json')
+      if (request.method === 'POST') {
+        response.end(JSON.stringify({ upload_id: 'upload-1', offset: 0 }))
+      } else {
+        response.end(JSON.stringify({ offset: 0 }))
+      }
+    })
+
+    try {
+      const target = new ApiUploader(server.baseUrl, 'token-1', fetch)
+      await assert.rejects(
+        target.upload(createBatch(), zipPath, createContext([])),
+        /Chunk upload made no progress/
+      )
+    } finally {
+      await server.close()
+    }
+  })
+
+  it('Brokered: uploads to a single-use URL and checks the size', async () => {
+    const server = await startServer((request, response) => {
+      response.setHeader('Content-Type', 'application/json')
+      if (request.url === '/api/recorder/upload-session') {
+        response.end(
+          JSON.stringify({ upload_url: `${server.baseUrl}/put/1`, upload_id: 'upload-1' })
+        )
+        return
+      }
+      response.end(JSON.stringify({ id: 'object-1', size: request.body.length }))
+    })
+
+    try {
+      const batch = createBatch()
+      const target = new BrokeredTarget(server.baseUrl, 'token-1', fetch)
+      const result = await target.upload(batch, zipPath, createContext([]))
+
+      const [session, put] = server.requests
+      assert.equal(session.headers['x-subject-token'], 'token-1')
+      assert.equal(put.method, 'PUT')
+      assert.ok(put.body.equals(zipData))
+      assert.deepEqual(batch.uploadSession, {
+        uri: `${server.baseUrl}/put/1`,
+        uploadId: 'upload-1',
+        resumable: false,
+      })
+      assert.equal(result.remote?.google_drive_file_id, 'object-1')
+    } finally {
+      await server.close()
+    }
+  })
+
+  it('Brokered: fails when the upload cannot be verified', async () => {
+    const server = await startServer((request, response) => {
+      if (request.url === '/api/recorder/upload-session') {
+        response.end(JSON.stringify({ upload_url: `${server.baseUrl}/put/1` }))
+        return
+      }
+      response.setHeader('ETag', '"0123456789abcdef"')
+      response.end()
+    })
+
+    try {
+      const target = new BrokeredTarget(server.baseUrl, 'token-1', fetch)
+      await assert.rejects(
+        target.upload(createBatch(), zipPath, createContext([])),
+        /Upload could not be verified/
+      )
+    } finally {
+      await server.close()
+    }
+  })
+
+  it('Folder: copies the file into the project and subject folders', async () => {
+    const rootDir = path.join(tmpDir, 'share')
+    fs.mkdirSync(rootDir)
+
+    const progress: Array<[number, number]> = []
+    const target = new LocalFolderTarget(rootDir)
+    const result = await target.upload(createBatch(), zipPath, createContext(progress))
+
+    const folder = path.join(rootDir, 'プロジェクト', 'subject_01')
+    const copied = path.join(folder, '2026-10-19_09-00-00.zip')
+    assert.ok(fs.readFileSync(copied).equals(zipData))
+    // 途中のファイルは残さない
+    assert.deepEqual(fs.readdirSync(folder), ['2026-10-19_09-00-00.zip'])
+    assert.deepEqual(result.remote, { storage_path: copied })
+    assert.deepEqual(progress.at(-1), [zipData.length, zipData.length])
+  })
+
+  it('Folder: fails when the folder does not exist', async () => {
+    const target = new LocalFolderTarget(path.join(tmpDir, 'missing'))
+    await assert.rejects(
+      target.upload(createBatch(), zipPath, createContext([])),
+      /Upload folder not found/
+    )
+  })
+
+  it('S3: uploads the file to the presigned URL', async () => {
+    const server = await startServer((request, response) => {
+      if (request.method === 'POST' && request.url === '/presign') {
+        response.setHeader('Content-Type', 'application/json')
+        response.end(
+          JSON.stringify({
+            url: `${server.baseUrl}/bucket/object.zip?X-Amz-Signature=secret`,
+            headers: { 'x-amz-server-side-encryption': 'AES256' },
+          })
+        )
+        return
+      }
+      response.statusCode = request.method === 'PUT' ? 200 : 404
+      response.end()
+    })
+
+    try {
+      const progress: Array<[number, number]> = []
+      const target = new S3PresignedTarget(`${server.baseUrl}/presign`, 'token-1', fetch)
+      const result = await target.upload(createBatch(), zipPath, createContext(progress))
+
+      const [presign, put] = server.requests
+      assert.equal(presign.headers['x-subject-token'], 'token-1')
+      assert.deepEqual(JSON.parse(presign.body.toString()), {
+        file_name: '2026-10-19_09-00-00.zip',
+        size: zipData.length,
+        content_type: 'application/zip',
+        project_name: 'プロジェクト',
+        subject_name: 'subject/01',
+      })
+
+      assert.equal(put.method, 'PUT')
+      assert.equal(put.url, '/bucket/object.zip?X-Amz-Signature=secret')
+      assert.equal(put.headers['content-length'], String(zipData.length))
+      assert.equal(put.headers['x-amz-server-side-encryption'], 'AES256')
+      assert.ok(put.body.equals(zipData))
+
+      // 署名は記録しない
+      assert.deepEqual(result.remote, { storage_url: `${server.baseUrl}/bucket/object.zip` })
+      assert.deepEqual(progress.at(-1), [zipData.length, zipData.length])
+    } finally {
+      await server.close()
+    }
+  })
+
+  it('S3: fails when the storage rejects the upload', async () => {
+    const server = await startServer((request, response) => {
+      if (request.method === 'POST') {
+        response.end(JSON.stringify({ url: `${server.baseUrl}/bucket/object.zip` }))
+        return
+      }
+      response.statusCode = 403
+      response.end('SignatureDoesNotMatch')
+    })
+
+    try {
+      const target = new S3PresignedTarget(`${server.baseUrl}/presign`, 'token-1', fetch)
+      await assert.rejects(
+        target.upload(createBatch(), zipPath, createContext([])),
+        /S3 upload failed: 403 - SignatureDoesNotMatch/
+      )
+    } finally {
+      await server.close()
+    }
+  })
+
+  it('WebDAV: creates the folders and uploads the file', async () => {
+    const projectFolder = `/dav/${encodeURIComponent('プロジェクト')}`
+    const folder = `${projectFolder}/subject_01`
+    const server = await startServer((request, response) => {
+      if (request.method === 'MKCOL') {
+        // プロジェクトのフォルダは作成済み
+        response.statusCode = request.url === projectFolder ? 405 : 201
+      } else {
+        response.statusCode = request.method === 'PUT' ? 201 : 404
+      }
+      response.end()
+    })
+
+    try {
+      const target = new WebDavTarget(
+        { type: 'webdav', url: `${server.baseUrl}/dav/`, username: 'user', password: 'pass' },
+        fetch
+      )
+      const result = await target.upload(createBatch(), zipPath, createContext([]))
+
+      assert.deepEqual(
+        server.requests.map((r) => `${r.method} ${r.url}`),
+        [
+          `MKCOL ${projectFolder}`,
+          `MKCOL ${folder}`,
+          `PUT ${folder}/2026-10-19_09-00-00.zip`,
+        ]
+      )
+
+      const put = server.requests[2]
+      const credentials = Buffer.from('user:pass').toString('base64')
+      assert.equal(put.headers.authorization, `Basic ${credentials}`)
+      assert.equal(put.headers['content-length'], String(zipData.length))
+      assert.ok(put.body.equals(zipData))
+      assert.deepEqual(result.remote, {
+        storage_url: `${server.baseUrl}${folder}/2026-10-19_09-00-00.zip`,
+      })
+    } finally {
+      await server.close()
+    }
+  })
+
+  it('WebDAV: fails when a folder cannot be created', async () => {
+    const server = await startServer((_request, response) => {
+      response.statusCode = 401
+      response.end('Unauthorized')
+    })
+
+    try {
+      const target = new WebDavTarget({ type: 'webdav', url: `${server.baseUrl}/dav` }, fetch)
+      await assert.rejects(
+        target.upload(createBatch(), zipPath, createContext([])),
+        /Folder creation failed: 401 - Unauthorized/
+      )
+      assert.equal(server.requests.length, 1)
+    } finally {
+      await server.close()
+    }
+  })
+})